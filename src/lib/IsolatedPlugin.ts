@@ -0,0 +1,358 @@
+import { join } from 'node:path';
+import { Worker, type ResourceLimits } from 'node:worker_threads';
+import { isLogLevel } from './NamespaceLogger';
+import PluginBase, { type PluginDeclarations } from './PluginBase';
+import type { PluginConfig, PluginMetricSnapshot, PluginSettings } from '../types';
+
+/** Methods of `PluginBase` that an isolated plugin executes in the parent thread, where the databases are */
+export const PROXIED_METHODS = [
+    'getState',
+    'setState',
+    'getStates',
+    'setStates',
+    'delState',
+    'getObject',
+    'setObject',
+    'extendObject',
+    'getObjects',
+    'getObjectView',
+    'delObject',
+    'fail',
+    'reportError',
+    'subscribeStates',
+    'unsubscribeStates',
+    'subscribeObjects',
+    'unsubscribeObjects',
+] as const;
+
+export type ProxiedMethod = (typeof PROXIED_METHODS)[number];
+
+/** Methods of the plugin the parent thread calls in the worker, `load` answers the declarations of the plugin class */
+export type WorkerMethod = 'load' | 'init' | 'destroy' | 'onStateChange' | 'onObjectChange';
+
+/** Messages between the parent thread and the worker of an isolated plugin, calls are answered with a result */
+export type WorkerMessage =
+    | { type: 'call'; id: number; method: ProxiedMethod | WorkerMethod; args: unknown[] }
+    | { type: 'result'; id: number; value?: unknown; error?: Error }
+    | { type: 'log'; level: ioBroker.LogLevel; message: string }
+    | { type: 'logLevel'; level: ioBroker.LogLevel }
+    | { type: 'metrics'; snapshot: PluginMetricSnapshot[] };
+
+/** Data the worker of an isolated plugin is started with */
+export interface PluginWorkerData {
+    /** Entry point of the plugin package */
+    entry: string;
+    loader: 'require' | 'import';
+    /** Settings of the plugin, without the members that cannot be passed to a worker */
+    settings: Omit<
+        PluginSettings,
+        'log' | 'services' | 'subscriptions' | 'reportFailure' | 'reportError' | 'logLimits'
+    >;
+    /** Log level of the plugin when the worker was started, changes are sent with a `logLevel` message */
+    logLevel: ioBroker.LogLevel;
+}
+
+/** Where the worker loads the plugin from and how it is limited */
+export interface IsolatedPluginSource {
+    /** Entry point of the plugin package */
+    entry: string;
+    loader: 'require' | 'import';
+    resourceLimits?: ResourceLimits;
+}
+
+/** A call to the other thread that waits for its result */
+export interface PendingCall {
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Convert anything that was thrown into an error, which can be passed between threads
+ *
+ * @param error what was thrown
+ */
+export function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Stand-in for a plugin that runs in a worker thread. It takes part in the lifecycle like any other plugin,
+ * `init()`, `destroy()` and the change hooks are forwarded to the worker. The database methods the plugin calls in the
+ * worker are executed here, so permissions and subscriptions are handled by the parent thread.
+ */
+export default class IsolatedPlugin extends PluginBase {
+    #source: IsolatedPluginSource;
+    #worker: Worker | null = null;
+    /** The error the worker stopped with */
+    #workerError: Error | null = null;
+    #pendingCalls = new Map<number, PendingCall>();
+    #lastCallId = 0;
+    /** The metrics of the plugin in the worker, as sent with their last write */
+    #metricsSnapshot: PluginMetricSnapshot[] = [];
+
+    /**
+     * @param settings settings of the plugin
+     * @param source where the worker loads the plugin from
+     */
+    constructor(settings: PluginSettings, source: IsolatedPluginSource) {
+        super(settings);
+        this.#source = source;
+    }
+
+    /**
+     * Get the declarations of the plugin class from a worker, the code of the plugin never runs in the parent thread.
+     * The worker only loads the class and is terminated afterwards, `init()` starts a new one.
+     *
+     * @param signal aborted when the initialization takes too long, the worker is terminated then
+     */
+    async loadDeclarations(signal?: AbortSignal): Promise<PluginDeclarations> {
+        this.#startWorker();
+        try {
+            return (await this.#call('load', [], signal)) as PluginDeclarations;
+        } finally {
+            await this.#terminate();
+        }
+    }
+
+    /**
+     * Start the worker, load the plugin in it and initialize it
+     *
+     * @param pluginConfig plugin configuration
+     * @param signal aborted when the initialization takes too long, the worker is terminated then
+     */
+    async init(pluginConfig: PluginConfig, signal?: AbortSignal): Promise<void> {
+        this.#startWorker();
+        try {
+            await this.#call('init', [pluginConfig], signal);
+        } catch (err) {
+            await this.#terminate();
+            throw err;
+        }
+    }
+
+    /**
+     * Destroy the plugin in the worker and terminate the worker
+     *
+     * @param signal aborted when the destruction takes too long, the worker is terminated then
+     */
+    async destroy(signal?: AbortSignal): Promise<boolean> {
+        if (!this.#worker) {
+            return true;
+        }
+        try {
+            return !!(await this.#call('destroy', [], signal));
+        } finally {
+            await this.#terminate();
+        }
+    }
+
+    /**
+     * Pass a change of a subscribed state to the worker
+     *
+     * @param id id of the changed state
+     * @param state the new state or null if it was deleted
+     */
+    async onStateChange(id: string, state: ioBroker.State | null | undefined): Promise<void> {
+        if (this.#worker) {
+            await this.#call('onStateChange', [id, state]);
+        }
+    }
+
+    /**
+     * Pass a change of a subscribed object to the worker
+     *
+     * @param id id of the changed object
+     * @param obj the new object or null if it was deleted
+     */
+    async onObjectChange(id: string, obj: ioBroker.Object | null | undefined): Promise<void> {
+        if (this.#worker) {
+            await this.#call('onObjectChange', [id, obj]);
+        }
+    }
+
+    /**
+     * Change the log level of the plugin, the worker drops the messages below it before they are sent
+     *
+     * @param level one of the log levels, `null` or an empty string to log with the level of the parent again
+     */
+    async setLogLevel(level: unknown): Promise<void> {
+        await super.setLogLevel(level);
+        this.#worker?.postMessage({ type: 'logLevel', level: this.log.level } satisfies WorkerMessage);
+    }
+
+    /**
+     * The metrics of the plugin, which live in the worker. The worker sends them whenever it writes them to their states,
+     * so they are as current as the states.
+     */
+    getMetricsSnapshot(): PluginMetricSnapshot[] {
+        return this.#metricsSnapshot;
+    }
+
+    /** Start the worker, the plugin is loaded by the first call of `init` */
+    #startWorker(): void {
+        const settings = this.settings;
+        const workerData: PluginWorkerData = {
+            entry: this.#source.entry,
+            loader: this.#source.loader,
+            settings: {
+                pluginScope: settings.pluginScope,
+                parentNamespace: settings.parentNamespace,
+                pluginNamespace: settings.pluginNamespace,
+                pluginLogNamespace: settings.pluginLogNamespace,
+                iobrokerConfig: settings.iobrokerConfig,
+                parentPackage: settings.parentPackage,
+                controllerVersion: settings.controllerVersion,
+                adapterDir: settings.adapterDir,
+                jsControllerDir: settings.jsControllerDir,
+                pluginPackage: settings.pluginPackage,
+                metricsInterval: settings.metricsInterval,
+            },
+            logLevel: this.log.level,
+        };
+
+        const worker = new Worker(join(__dirname, 'pluginWorker.js'), {
+            workerData,
+            resourceLimits: this.#source.resourceLimits,
+        });
+        this.#worker = worker;
+        this.#workerError = null;
+        worker.on('message', (message: WorkerMessage) => this.#handleMessage(worker, message));
+        worker.on('error', error => {
+            this.#workerError = error;
+        });
+        worker.on('exit', code => this.#handleExit(worker, code));
+    }
+
+    /**
+     * Stop the worker, calls that wait for it are rejected
+     *
+     * @param reason the error to reject the waiting calls with
+     */
+    async #terminate(reason = new Error('Worker of the plugin was terminated')): Promise<void> {
+        const worker = this.#worker;
+        if (!worker) {
+            return;
+        }
+        this.#worker = null;
+        this.#rejectPendingCalls(reason);
+        await worker.terminate();
+    }
+
+    /**
+     * A worker that stops by itself crashed, e.g. because of an uncaught exception or its resource limits.
+     * The crash of an active plugin is reported like a fatal error of the plugin.
+     *
+     * @param worker the worker that stopped
+     * @param code the exit code
+     */
+    #handleExit(worker: Worker, code: number): void {
+        if (this.#worker !== worker) {
+            // terminated on purpose
+            return;
+        }
+        this.#worker = null;
+        const error = this.#workerError ?? new Error(`Worker of the plugin stopped with exit code ${code}`);
+        this.#rejectPendingCalls(error);
+        if (this.isActive) {
+            void this.fail(error);
+        }
+    }
+
+    /**
+     * Reject all calls that wait for the worker
+     *
+     * @param error the reason
+     */
+    #rejectPendingCalls(error: Error): void {
+        for (const call of this.#pendingCalls.values()) {
+            call.reject(error);
+        }
+        this.#pendingCalls.clear();
+    }
+
+    /**
+     * Call a method of the plugin in the worker
+     *
+     * @param method the method to call
+     * @param args the arguments, they must be cloneable
+     * @param signal a plugin that exceeds its timeout may be stuck in a busy loop, so the worker is terminated when aborted
+     * @returns the result of the method
+     */
+    #call(method: WorkerMethod, args: unknown[], signal?: AbortSignal): Promise<unknown> {
+        const worker = this.#worker;
+        if (!worker) {
+            return Promise.reject(new Error('Worker of the plugin is not running'));
+        }
+        // an aborted signal does not fire again, so the call would never be cut short
+        if (signal?.aborted) {
+            return Promise.reject(toError(signal.reason));
+        }
+
+        const id = ++this.#lastCallId;
+        const onAbort = (): void => void this.#terminate(toError(signal?.reason));
+        signal?.addEventListener('abort', onAbort, { once: true });
+        return new Promise<unknown>((resolve, reject) => {
+            worker.postMessage({ type: 'call', id, method, args } satisfies WorkerMessage);
+            this.#pendingCalls.set(id, { resolve, reject });
+        }).finally(() => signal?.removeEventListener('abort', onAbort));
+    }
+
+    /**
+     * Process a message of the worker
+     *
+     * @param worker the worker that sent the message
+     * @param message the message
+     */
+    #handleMessage(worker: Worker, message: WorkerMessage): void {
+        switch (message.type) {
+            case 'log':
+                if (isLogLevel(message.level)) {
+                    // the message is already prefixed by the logger of the plugin in the worker,
+                    // the level of the plugin is applied here, so it can be changed while the worker runs
+                    this.log.forward(message.level, message.message);
+                }
+                break;
+
+            case 'metrics':
+                this.#metricsSnapshot = message.snapshot;
+                break;
+
+            case 'result': {
+                const call = this.#pendingCalls.get(message.id);
+                this.#pendingCalls.delete(message.id);
+                if (message.error) {
+                    call?.reject(message.error);
+                } else {
+                    call?.resolve(message.value);
+                }
+                break;
+            }
+
+            case 'call':
+                this.#handleCall(message.method, message.args).then(
+                    value => worker.postMessage({ type: 'result', id: message.id, value } satisfies WorkerMessage),
+                    error =>
+                        worker.postMessage({
+                            type: 'result',
+                            id: message.id,
+                            error: toError(error),
+                        } satisfies WorkerMessage),
+                );
+                break;
+        }
+    }
+
+    /**
+     * Execute a method the plugin called in the worker
+     *
+     * @param method the method, only the proxied methods are allowed
+     * @param args the arguments of the call
+     */
+    async #handleCall(method: string, args: unknown[]): Promise<unknown> {
+        if (!(PROXIED_METHODS as readonly string[]).includes(method)) {
+            throw new Error(`Method ${method} cannot be called by an isolated plugin`);
+        }
+        const proxied = this[method as ProxiedMethod] as (...args: unknown[]) => Promise<unknown>;
+        return proxied.apply(this, args);
+    }
+}
@@ -0,0 +1,133 @@
+import type { PluginLogLimits } from '../types';
+
+/** Token bucket of one log level */
+interface TokenBucket {
+    tokens: number;
+    /** When the tokens were refilled the last time */
+    refilledAt: number;
+}
+
+/**
+ * Limits the messages of one plugin, it collapses identical consecutive messages and applies a token bucket per level.
+ * What was suppressed is written as summary later, either when another message is written, periodically or on `flush()`.
+ */
+export default class LogLimiter {
+    readonly #prefix: string;
+    readonly #limits: PluginLogLimits;
+    /** Writes a message to the underlying logger, the limits do not apply to it */
+    readonly #write: (level: ioBroker.LogLevel, message: string) => void;
+    #buckets = new Map<ioBroker.LogLevel, TokenBucket>();
+    /** The last message that was written */
+    #last?: { level: ioBroker.LogLevel; message: string };
+    /** How often the last message was repeated since it was written */
+    #repeated = 0;
+    /** Number of messages per level that were dropped because their bucket was empty */
+    #suppressed: Partial<Record<ioBroker.LogLevel, number>> = {};
+    /** Timer of the next summary, only running while something was suppressed */
+    #summaryTimer?: NodeJS.Timeout;
+
+    /**
+     * @param prefix prefix of the summaries, the namespace of the plugin
+     * @param limits the limits
+     * @param write writes a message to the underlying logger
+     */
+    constructor(prefix: string, limits: PluginLogLimits, write: (level: ioBroker.LogLevel, message: string) => void) {
+        this.#prefix = prefix;
+        this.#limits = limits;
+        this.#write = write;
+    }
+
+    /**
+     * Check if a message may be written, a message that is not written is counted for the summary
+     *
+     * @param level the level of the message
+     * @param message the rendered message
+     * @returns true if the message has to be written
+     */
+    accept(level: ioBroker.LogLevel, message: string): boolean {
+        if (
+            this.#limits.suppressDuplicates !== false &&
+            this.#last?.level === level &&
+            this.#last.message === message
+        ) {
+            this.#repeated++;
+            this.#scheduleSummary();
+            return false;
+        }
+        this.#writeRepeated();
+
+        if (!this.#takeToken(level)) {
+            this.#suppressed[level] = (this.#suppressed[level] ?? 0) + 1;
+            this.#scheduleSummary();
+            return false;
+        }
+        this.#last = { level, message };
+        return true;
+    }
+
+    /** Write what was suppressed so far and stop the periodic summary */
+    flush(): void {
+        if (this.#summaryTimer) {
+            clearTimeout(this.#summaryTimer);
+            this.#summaryTimer = undefined;
+        }
+        this.#writeRepeated();
+
+        const counts = Object.entries(this.#suppressed);
+        if (counts.length) {
+            this.#suppressed = {};
+            const total = counts.reduce((sum, [, count]) => sum + count, 0);
+            const details = counts.map(([level, count]) => `${level}: ${count}`).join(', ');
+            const what = total > 1 ? `${total} messages were` : '1 message was';
+            this.#write('warn', `${this.#prefix} ${what} suppressed by the log rate limit (${details})`);
+        }
+    }
+
+    /**
+     * Take a token from the bucket of a level, levels without rate are not limited
+     *
+     * @param level the level of the message
+     * @returns false if the bucket is empty
+     */
+    #takeToken(level: ioBroker.LogLevel): boolean {
+        const rate = this.#limits.rates?.[level];
+        if (!rate) {
+            return true;
+        }
+        const burst = rate.burst ?? Math.max(rate.perSecond, 1);
+        const now = Date.now();
+        const bucket = this.#buckets.get(level) ?? { tokens: burst, refilledAt: now };
+        bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.refilledAt) / 1000) * rate.perSecond);
+        bucket.refilledAt = now;
+        this.#buckets.set(level, bucket);
+
+        if (bucket.tokens < 1) {
+            return false;
+        }
+        bucket.tokens--;
+        return true;
+    }
+
+    /** Write how often the last message was repeated, if it was */
+    #writeRepeated(): void {
+        if (this.#repeated && this.#last) {
+            const times = this.#repeated;
+            this.#repeated = 0;
+            this.#write(this.#last.level, `${this.#prefix} last message repeated ${times} time${times > 1 ? 's' : ''}`);
+        }
+    }
+
+    /** Start the timer of the summary, the summary is written once and the timer is started again by the next suppression */
+    #scheduleSummary(): void {
+        const interval = this.#limits.summaryInterval ?? 60_000;
+        if (this.#summaryTimer || interval <= 0) {
+            return;
+        }
+        this.#summaryTimer = setTimeout(() => {
+            this.#summaryTimer = undefined;
+            this.flush();
+        }, interval);
+        // the summary must not keep the parent process alive
+        this.#summaryTimer.unref();
+    }
+}
@@ -1,19 +1,117 @@
+import LogLimiter from './LogLimiter';
+import type { PluginLogFields, PluginLogLimits } from '../types';
+
+/** Log levels from the most to the least verbose */
+export const LOG_LEVELS: readonly ioBroker.LogLevel[] = ['silly', 'debug', 'info', 'warn', 'error'];
+
+/**
+ * Check if a value is one of the log levels
+ *
+ * @param level the value to check
+ */
+export function isLogLevel(level: unknown): level is ioBroker.LogLevel {
+    return LOG_LEVELS.includes(level as ioBroker.LogLevel);
+}
+
+/** Level and limits of a plugin, shared by its logger and all child loggers */
+interface LevelFilter {
+    /** Not set, if the plugin logs with the level of the parent */
+    level?: ioBroker.LogLevel;
+    /** Not set, if the messages are not limited */
+    limiter?: LogLimiter;
+}
+
+/**
+ * Position of a level from the most to the least verbose, unknown levels are treated as the most verbose
+ *
+ * @param level the log level
+ */
+function severity(level: ioBroker.LogLevel): number {
+    return Math.max(LOG_LEVELS.indexOf(level), 0);
+}
+
+/**
+ * Render the value of a field, strings without blanks and quotes are written as they are
+ *
+ * @param value the value of the field
+ */
+function formatValue(value: unknown): string {
+    if (typeof value === 'string') {
+        return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+    }
+    if (value instanceof Error) {
+        return JSON.stringify(value.message);
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (value !== null && typeof value === 'object') {
+        try {
+            return JSON.stringify(value);
+        } catch {
+            return '[unserializable]';
+        }
+    }
+    return String(value);
+}
+
+/**
+ * Render an error with its stack and the chain of its causes
+ *
+ * @param error the error to render
+ */
+function formatError(error: Error): string {
+    const lines: string[] = [];
+    const seen = new Set<unknown>();
+    let current: unknown = error;
+    while (current !== undefined && current !== null && !seen.has(current)) {
+        seen.add(current);
+        const prefix = current === error ? '' : 'Caused by: ';
+        if (!(current instanceof Error)) {
+            lines.push(`${prefix}${formatValue(current)}`);
+            break;
+        }
+        lines.push(`${prefix}${current.stack ?? `${current.name}: ${current.message}`}`);
+        current = (current as Error & { cause?: unknown }).cause;
+    }
+    return lines.join('\n');
+}
+
 /**
  * Logger with Namespace-prefix for ioBroker
+ *
+ * Messages can be followed by structured fields, which are rendered as `key=value`, or by an error, which is rendered
+ * with its stack and causes:
+ *
+ * ```ts
+ * log.info('sent', { count: 3, durationMs: 120 }); // <namespace> sent count=3 durationMs=120
+ * log.warn('Cannot connect', err); // <namespace> Cannot connect: <message>, followed by the stack
+ * ```
+ *
+ * The logger can have a level of its own. Messages below it are dropped, messages the parent logger would drop because
+ * of its level are written with the level of the parent and prefixed with their own level, e.g. `[debug]`.
+ * With `setLimits()` identical consecutive messages are collapsed and the number of messages per level is limited.
  */
 export default class NamespaceLogger {
     readonly #namespaceLog: string;
     #logger: ioBroker.Logger;
+    /** Fields that are added to every message */
+    readonly #fields: PluginLogFields;
+    readonly #filter: LevelFilter;
 
     /**
      * @param namespaceLog Logging-Namespace as prefix
      * @param logger Logger-instance
+     * @param fields fields that are added to every message
+     * @param filter level of the plugin, child loggers share it with their parent
      */
-    constructor(namespaceLog: string, logger: ioBroker.Logger) {
+    constructor(namespaceLog: string, logger: ioBroker.Logger, fields: PluginLogFields = {}, filter: LevelFilter = {}) {
         this.#namespaceLog = namespaceLog;
         // We need to bind this context, otherwise this can be undefined
         // when logger methods are passed around.
         this.#logger = logger;
+        this.#fields = fields;
+        this.#filter = filter;
         this.silly = this.silly.bind(this);
         this.debug = this.debug.bind(this);
         this.info = this.info.bind(this);
@@ -21,23 +119,159 @@ export default class NamespaceLogger {
         this.warn = this.warn.bind(this);
     }
 
-    silly(msg: string): void {
-        this.#logger.silly(`${this.#namespaceLog} ${msg}`);
+    /** Verbosity of this logger, the level of the plugin or of the underlying logger, so this logger can be passed on as ioBroker logger */
+    get level(): ioBroker.LogLevel {
+        return this.#filter.level ?? this.#logger.level;
+    }
+
+    /**
+     * Change the level of this logger and all loggers that were created with `child()`
+     *
+     * @param level the new level, without a level the level of the underlying logger applies again
+     */
+    setLevel(level?: ioBroker.LogLevel): void {
+        this.#filter.level = level;
+    }
+
+    /**
+     * Limit the messages of this logger and all loggers that were created with `child()`, what was suppressed until
+     * then is written first
+     *
+     * @param limits the new limits, without limits all messages are written
+     */
+    setLimits(limits?: PluginLogLimits): void {
+        this.#filter.limiter?.flush();
+        this.#filter.limiter = limits
+            ? new LogLimiter(this.#namespaceLog, limits, (level, message) => this.#output(level, message))
+            : undefined;
+    }
+
+    /** Write the summary of the messages that were suppressed by the limits so far */
+    flush(): void {
+        this.#filter.limiter?.flush();
     }
 
-    debug(msg: string): void {
-        this.#logger.debug(`${this.#namespaceLog} ${msg}`);
+    /**
+     * Check if messages of a level are written
+     *
+     * @param level the level of the messages
+     */
+    isLevelEnabled(level: ioBroker.LogLevel): boolean {
+        return severity(level) >= severity(this.level);
     }
 
-    info(msg: string): void {
-        this.#logger.info(`${this.#namespaceLog} ${msg}`);
+    /**
+     * Create a logger for a part of the plugin, e.g. `log.child({ component: 'uploader' })`
+     *
+     * @param context the `component` is added to the prefix, all other fields are added to every message
+     */
+    child(context: PluginLogFields & { component?: string }): NamespaceLogger {
+        const { component, ...fields } = context;
+        const namespaceLog = component ? `${this.#namespaceLog} [${component}]` : this.#namespaceLog;
+        return new NamespaceLogger(namespaceLog, this.#logger, { ...this.#fields, ...fields }, this.#filter);
+    }
+
+    silly(msg: string, details?: PluginLogFields | Error): void {
+        this.#log('silly', msg, details);
     }
 
-    error(msg: string): void {
-        this.#logger.error(`${this.#namespaceLog} ${msg}`);
+    debug(msg: string, details?: PluginLogFields | Error): void {
+        this.#log('debug', msg, details);
     }
 
-    warn(msg: string): void {
-        this.#logger.warn(`${this.#namespaceLog} ${msg}`);
+    info(msg: string, details?: PluginLogFields | Error): void {
+        this.#log('info', msg, details);
+    }
+
+    error(msg: string, details?: PluginLogFields | Error): void {
+        this.#log('error', msg, details);
+    }
+
+    warn(msg: string, details?: PluginLogFields | Error): void {
+        this.#log('warn', msg, details);
+    }
+
+    /**
+     * Write a message that is already rendered, e.g. by the logger of a plugin in a worker thread
+     *
+     * @param level the level of the message
+     * @param message the message with prefix
+     */
+    forward(level: ioBroker.LogLevel, message: string): void {
+        if (this.isLevelEnabled(level)) {
+            this.#write(level, message);
+        }
+    }
+
+    /**
+     * Render and write a message, if its level is enabled
+     *
+     * @param level the level of the message
+     * @param msg the message
+     * @param details fields or an error
+     */
+    #log(level: ioBroker.LogLevel, msg: string, details: unknown): void {
+        if (this.isLevelEnabled(level)) {
+            this.#write(level, this.#format(msg, details));
+        }
+    }
+
+    /**
+     * Pass a message to the underlying logger, unless it is suppressed by the limits
+     *
+     * @param level the level of the message
+     * @param message the rendered message
+     */
+    #write(level: ioBroker.LogLevel, message: string): void {
+        if (!this.#filter.limiter || this.#filter.limiter.accept(level, message)) {
+            this.#output(level, message);
+        }
+    }
+
+    /**
+     * Pass a message to the underlying logger, raised to its level if it would be dropped there
+     *
+     * @param level the level of the message
+     * @param message the rendered message
+     */
+    #output(level: ioBroker.LogLevel, message: string): void {
+        const parentLevel = this.#logger.level;
+        if (this.#filter.level && isLogLevel(parentLevel) && severity(level) < severity(parentLevel)) {
+            this.#logger[parentLevel](`[${level}] ${message}`);
+        } else {
+            this.#logger[level](message);
+        }
+    }
+
+    /**
+     * Render a message with the prefix, the fields and the errors
+     *
+     * @param msg the message
+     * @param details fields or an error, anything else that was thrown is appended to the message
+     */
+    #format(msg: string, details: unknown): string {
+        let message = `${this.#namespaceLog} ${msg}`;
+        let fields: PluginLogFields = this.#fields;
+        let error: Error | undefined;
+        if (details instanceof Error) {
+            error = details;
+            message += `: ${details.message}`;
+        } else if (details !== null && typeof details === 'object') {
+            fields = { ...fields, ...details };
+        } else if (details !== undefined) {
+            message += `: ${typeof details === 'string' ? details : formatValue(details)}`;
+        }
+
+        const errors = error ? [error] : [];
+        for (const [key, value] of Object.entries(fields)) {
+            message += ` ${key}=${formatValue(value)}`;
+            if (value instanceof Error) {
+                errors.push(value);
+            }
+        }
+        for (const err of errors) {
+            message += `\n${formatError(err)}`;
+        }
+        return message;
     }
 }
@@ -1,11 +1,107 @@
-import NamespaceLogger from './NamespaceLogger';
-import type { InternalAdapterJsonConfig, IoPackageFile, PluginSettings } from '../types';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import NamespaceLogger, { isLogLevel, LOG_LEVELS } from './NamespaceLogger';
+import { validatePluginConfig } from './configSchema';
+import { isAccessAllowed, matchesIdPattern, mergePermissions, type PluginAccess } from './permissions';
+import { getPluginManifest } from './pluginManifest';
+import PluginMetrics from './PluginMetrics';
+import ServiceRegistry from './ServiceRegistry';
+import SubscriptionRegistry from './SubscriptionRegistry';
+import type {
+    InternalAdapterJsonConfig,
+    IoPackageFile,
+    PluginConfig,
+    PluginConfigSchema,
+    PluginDisposable,
+    PluginLogFields,
+    PluginMetricSnapshot,
+    PluginObjectDefinition,
+    PluginPermissions,
+    PluginSettings,
+    PluginStatus,
+} from '../types';
 import type { Client as StatesInRedisClient } from '@iobroker/db-states-redis';
 import type { Client as ObjectsInRedisClient } from '@iobroker/db-objects-redis';
+
+/**
+ * Number of the initialization the running code of a plugin belongs to. An initialization the handler gave up on may
+ * still run while the plugin is initialized again, so its timers and resources are told apart from the ones of the new run.
+ */
+const initRun = new AsyncLocalStorage<number>();
+
+/** Static members of a plugin class that override the declarations of the manifest */
+export type PluginDeclarations = Pick<typeof PluginBase, 'configSchema' | 'objects' | 'removeStaleObjects'>;
+
+/** Read-only states below `<pluginNamespace>.info` that describe the health of the plugin */
+const INFO_STATES: Record<string, ioBroker.StateCommon> = {
+    status: {
+        name: 'Plugin - status',
+        type: 'string',
+        read: true,
+        write: false,
+        role: 'text',
+        states: {
+            instantiated: 'instantiated',
+            initializing: 'initializing',
+            active: 'active',
+            failed: 'failed',
+            destroyed: 'destroyed',
+        },
+    },
+    lastError: {
+        name: 'Plugin - last error',
+        type: 'string',
+        read: true,
+        write: false,
+        role: 'text',
+    },
+    initDurationMs: {
+        name: 'Plugin - duration of the initialization',
+        type: 'number',
+        read: true,
+        write: false,
+        role: 'value',
+        unit: 'ms',
+    },
+    version: {
+        name: 'Plugin - version',
+        type: 'string',
+        read: true,
+        write: false,
+        role: 'text',
+    },
+    startedAt: {
+        name: 'Plugin - started at',
+        type: 'number',
+        read: true,
+        write: false,
+        role: 'value.time',
+    },
+};
+/** Objects below `<pluginNamespace>` that are managed by the base class, they are never removed as stale objects */
+const BUILT_IN_OBJECTS = ['enabled', 'logLevel', 'info', 'metrics'];
+
+/** Types of the objects a plugin can declare */
+const OBJECT_TYPES: readonly string[] = ['state', 'channel', 'device', 'folder'];
+
 /**
  * Base class for ioBroker Plugins
+ *
+ * @template TConfig type of the plugin configuration, without the keys that are handled by the base class
  */
-export default class PluginBase {
+export default class PluginBase<TConfig extends Record<string, any> = Record<string, any>> {
+    /**
+     * Schema of the plugin configuration, overrides the `configSchema` of the manifest.
+     * If a schema exists, the configuration is validated and defaults are applied before `init()` is called.
+     */
+    public static configSchema?: PluginConfigSchema;
+    /**
+     * Objects of the plugin, override the `objects` of the manifest.
+     * They are created or updated below the plugin namespace before `init()` is called.
+     */
+    public static objects?: PluginObjectDefinition[];
+    /** Remove the objects below the plugin namespace that are not declared, overrides `removeStaleObjects` of the manifest */
+    public static removeStaleObjects?: boolean;
+
     public pluginScope: 'adapter' | 'controller';
     /** The object namespace for the parent of the plugin, e.g. `system.adapter.<adaptername>.0`, or `system.host.<hostname>.` */
     public parentNamespace: string;
@@ -13,19 +109,55 @@ export default class PluginBase {
     public pluginNamespace: string;
     /** The logger object to use for logging */
     public log: NamespaceLogger;
+    /** Counters, gauges and histograms of the plugin, written to states below `<pluginNamespace>.metrics` */
+    public metrics: PluginMetrics;
     /** The complete ioBroker configuration object */
     public iobrokerConfig: InternalAdapterJsonConfig;
     /** package.json of adapter */
     public parentPackage: Record<string, any>;
+    /** package.json of the plugin itself */
+    public pluginPackage: Record<string, any>;
     public settings: PluginSettings;
+    /**
+     * The objects database client of the parent. Calls on it bypass the permissions, which are only enforced for the
+     * helper methods and for isolated plugins, which cannot reach the client.
+     */
     public objectsDb: ObjectsInRedisClient | null = null;
+    /**
+     * The states database client of the parent. Calls on it bypass the permissions, which are only enforced for the
+     * helper methods and for isolated plugins, which cannot reach the client.
+     */
     public statesDb: StatesInRedisClient | null = null;
     public isActive: boolean = false;
+    /** The lifecycle status of the plugin, also written to `<pluginNamespace>.info.status` */
+    public status: PluginStatus = 'instantiated';
+    /** The error that made the plugin fail the last time */
+    public lastError: Error | null = null;
     public SCOPES = {
         ADAPTER: 'adapter',
         CONTROLLER: 'controller',
     };
     public parentIoPackage?: IoPackageFile;
+    /** The validated configuration the plugin was initialized with */
+    #pluginConfig?: PluginConfig<TConfig>;
+    /** Ids outside the plugin namespace the plugin may access */
+    #permissions: Required<PluginPermissions>;
+    /** Patterns of the states the plugin subscribed */
+    #stateSubscriptions = new Set<string>();
+    /** Patterns of the objects the plugin subscribed */
+    #objectSubscriptions = new Set<string>();
+    /** Registry of the services of all plugins of the handler */
+    #serviceRegistry: ServiceRegistry;
+    /** Counts the subscriptions of all plugins of the handler, which share the database clients */
+    #subscriptionRegistry: SubscriptionRegistry;
+    /** Services this plugin provides, they are registered while the plugin is active */
+    #providedServices = new Map<string, unknown>();
+    /** Timers of `setTimeout()` and `setInterval()` that are still pending, with the initialization they belong to */
+    #timers = new Map<NodeJS.Timeout, number>();
+    /** Resources of `registerDisposable()`, in the order of their registration */
+    #disposables: { disposable: PluginDisposable; run: number }[] = [];
+    /** Number of the last initialization */
+    #initRuns = 0;
 
     /**
      * Constructor for Plugin class
@@ -36,18 +168,25 @@ export default class PluginBase {
         this.parentNamespace = settings.parentNamespace;
         this.pluginNamespace = settings.pluginNamespace;
         this.log = new NamespaceLogger(settings.pluginLogNamespace, settings.log);
+        this.log.setLimits(settings.logLimits);
         this.iobrokerConfig = settings.iobrokerConfig;
         this.parentPackage = settings.parentPackage || {};
+        this.pluginPackage = settings.pluginPackage || {};
         this.settings = settings;
+        this.metrics = new PluginMetrics(this, settings.metricsInterval);
+        this.#permissions = mergePermissions(getPluginManifest(this.pluginPackage).permissions);
+        this.#serviceRegistry = settings.services ?? new ServiceRegistry();
+        this.#subscriptionRegistry = settings.subscriptions ?? new SubscriptionRegistry();
     }
 
     /**
      * Method for a Plugin developer to initialize his Plugin
      *
      * @param _pluginConfig plugin configuration from config files
+     * @param _signal aborted when the initialization takes longer than the configured timeout
      * @returns resolves if init was successful else rejects
      */
-    init(_pluginConfig: Record<string, any>): Promise<void> {
+    init(_pluginConfig: PluginConfig<TConfig>, _signal?: AbortSignal): Promise<void> {
         // Implement in your Plugin instance if needed
         return Promise.reject(new Error('Not implemented'));
     }
@@ -55,9 +194,10 @@ export default class PluginBase {
     /**
      * Method that is called on a clean end of the process to potentially clean up the used resources
      *
+     * @param _signal aborted when the destruction takes longer than the configured timeout
      * @returns The return value indicates if the exit was successful. If no action needs to be taken, you should return true.
      */
-    destroy(): Promise<boolean> {
+    destroy(_signal?: AbortSignal): Promise<boolean> {
         // Implement in your Plugin instance if needed
         return Promise.resolve(true);
     }
@@ -72,6 +212,10 @@ export default class PluginBase {
         if (!this.statesDb) {
             return Promise.reject(new Error('States Database not initialized.'));
         }
+        const denied = this.#checkAccess(id, 'read');
+        if (denied) {
+            return Promise.reject(denied);
+        }
         return this.statesDb.getStateAsync(id);
     }
 
@@ -86,6 +230,10 @@ export default class PluginBase {
         if (!this.statesDb) {
             return Promise.reject(new Error('States Database not initialized.'));
         }
+        const denied = this.#checkAccess(id, 'write');
+        if (denied) {
+            return Promise.reject(denied);
+        }
         return this.statesDb.setStateAsync(id, state);
     }
 
@@ -99,6 +247,10 @@ export default class PluginBase {
         if (!this.objectsDb) {
             return Promise.reject(new Error('Objects Database not initialized.'));
         }
+        const denied = this.#checkAccess(id, 'read');
+        if (denied) {
+            return Promise.reject(denied);
+        }
         return this.objectsDb.getObjectAsync(id);
     }
 
@@ -113,6 +265,10 @@ export default class PluginBase {
         if (!this.objectsDb) {
             return Promise.reject(new Error('Objects Database not initialized.'));
         }
+        const denied = this.#checkAccess(id, 'write');
+        if (denied) {
+            return Promise.reject(denied);
+        }
         return this.objectsDb.setObjectAsync(id, obj);
     }
 
@@ -127,9 +283,401 @@ export default class PluginBase {
         if (!this.objectsDb) {
             return Promise.reject(new Error('Objects Database not initialized.'));
         }
+        const denied = this.#checkAccess(id, 'write');
+        if (denied) {
+            return Promise.reject(denied);
+        }
         return this.objectsDb.extendObjectAsync(id, obj);
     }
 
+    /**
+     * Get several states with one request
+     *
+     * @param idsOrPattern ids of the states or a pattern with `*` as wildcard, e.g. `${this.pluginNamespace}.devices.*`
+     * @returns the states by id, null for ids without state
+     */
+    async getStates(idsOrPattern: string[] | string): Promise<Record<string, ioBroker.State | null>> {
+        if (!this.statesDb) {
+            throw new Error('States Database not initialized.');
+        }
+        const ids = await this.#resolveIds(idsOrPattern, 'read', pattern => this.statesDb!.getKeys(pattern));
+        if (!ids.length) {
+            return {};
+        }
+        const states = await this.statesDb.getStates(ids);
+        return Object.fromEntries(ids.map((id, i) => [id, states[i] ?? null]));
+    }
+
+    /**
+     * Set several states, nothing is written if the plugin may not write one of them
+     *
+     * @param states the states to set by id
+     */
+    async setStates(states: Record<string, ioBroker.SettableState>): Promise<void> {
+        if (!this.statesDb) {
+            throw new Error('States Database not initialized.');
+        }
+        const ids = Object.keys(states);
+        this.#checkAllAccess(ids, 'write');
+        // the client sends the commands without waiting for the single results
+        await Promise.all(ids.map(id => this.statesDb!.setStateAsync(id, states[id])));
+    }
+
+    /**
+     * Delete a state
+     *
+     * @param id id of the state
+     * @param options options of the deletion
+     * @param options.recursive also delete all states below the id
+     * @returns the ids of the deleted states
+     */
+    async delState(id: string, options: { recursive?: boolean } = {}): Promise<string[]> {
+        if (!this.statesDb) {
+            throw new Error('States Database not initialized.');
+        }
+        this.#checkAllAccess([id], 'write');
+        const ids = options.recursive ? [id, ...((await this.statesDb.getKeys(`${id}.*`)) ?? [])] : [id];
+        // a permission of the id does not cover the states below it, so nothing is deleted if one is denied
+        this.#checkAllAccess(ids, 'write');
+        for (const stateId of ids) {
+            await this.statesDb.delState(stateId);
+        }
+        return ids;
+    }
+
+    /**
+     * Get several objects with one request
+     *
+     * @param idsOrPattern ids of the objects or a pattern with `*` as wildcard, e.g. `${this.pluginNamespace}.*`
+     * @returns the existing objects by id
+     */
+    async getObjects(idsOrPattern: string[] | string): Promise<Record<string, ioBroker.Object>> {
+        if (!this.objectsDb) {
+            throw new Error('Objects Database not initialized.');
+        }
+        const ids = await this.#resolveIds(idsOrPattern, 'read', pattern => this.objectsDb!.getKeysAsync(pattern));
+        if (!ids.length) {
+            return {};
+        }
+        const objects = await this.objectsDb.getObjectsAsync(ids);
+        const result: Record<string, ioBroker.Object> = {};
+        ids.forEach((id, i) => {
+            if (objects[i]) {
+                result[id] = objects[i] as ioBroker.Object;
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Get all objects of a type within a namespace, via the `system` view of the objects database
+     *
+     * @param type the type of the objects, e.g. `state` or `device`
+     * @param namespace the namespace to search in, the namespace of the plugin by default
+     * @returns the objects by id
+     */
+    async getObjectView(
+        type: ioBroker.ObjectType,
+        namespace: string = this.pluginNamespace,
+    ): Promise<Record<string, ioBroker.Object>> {
+        if (!this.objectsDb) {
+            throw new Error('Objects Database not initialized.');
+        }
+        this.#checkAllAccess([`${namespace}.*`], 'read');
+        const view = await this.objectsDb.getObjectViewAsync('system', type, {
+            startkey: `${namespace}.`,
+            endkey: `${namespace}.\u9999`,
+        });
+        return Object.fromEntries((view?.rows ?? []).map(row => [row.id, row.value]));
+    }
+
+    /**
+     * Delete an object, its state is not deleted
+     *
+     * @param id id of the object
+     * @param options options of the deletion
+     * @param options.recursive also delete all objects below the id
+     * @returns the ids of the deleted objects
+     */
+    async delObject(id: string, options: { recursive?: boolean } = {}): Promise<string[]> {
+        if (!this.objectsDb) {
+            throw new Error('Objects Database not initialized.');
+        }
+        this.#checkAllAccess([id], 'write');
+        const children = options.recursive ? ((await this.objectsDb.getKeysAsync(`${id}.*`)) ?? []) : [];
+        // the children first, so no object is left without parent if the deletion is interrupted
+        const ids = [...children.sort().reverse(), id];
+        this.#checkAllAccess(ids, 'write');
+        for (const objectId of ids) {
+            await this.objectsDb.delObjectAsync(objectId);
+        }
+        return ids;
+    }
+
+    /**
+     * Report a fatal error at runtime, after which the plugin cannot continue to work.
+     * The plugin is destroyed and restarted according to the restart policy of the handler.
+     *
+     * @param error what went wrong
+     */
+    async fail(error: Error | string): Promise<void> {
+        const err = error instanceof Error ? error : new Error(error);
+        this.log.error('Plugin failed', err);
+        if (this.settings.reportFailure) {
+            await this.settings.reportFailure(err);
+        } else {
+            await this.setActive(false);
+            await this.setStatus('failed', err);
+        }
+    }
+
+    /**
+     * Report an error the plugin can handle itself, e.g. a failed request. The error is logged and passed to the
+     * `onError` hook of the handler together with the name and version of the plugin.
+     *
+     * @param error what went wrong
+     * @param context fields that describe the situation, e.g. `{ url }`
+     */
+    reportError(error: unknown, context: PluginLogFields = {}): void {
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.log.error('Reported error', { ...context, error: err });
+        this.settings.reportError?.(err, context);
+    }
+
+    /**
+     * Subscribe to changes of states, the changes are passed to `onStateChange()`
+     * The subscriptions are removed automatically when the plugin is destroyed.
+     *
+     * @param pattern id or pattern with `*` as wildcard
+     */
+    async subscribeStates(pattern: string): Promise<void> {
+        if (!this.statesDb) {
+            throw new Error('States Database not initialized.');
+        }
+        const denied = this.#checkAccess(pattern, 'read');
+        if (denied) {
+            throw denied;
+        }
+        if (!this.#stateSubscriptions.has(pattern)) {
+            const statesDb = this.statesDb;
+            await this.#subscribe(statesDb, pattern, () => statesDb.subscribe(pattern));
+            this.#stateSubscriptions.add(pattern);
+        }
+    }
+
+    /**
+     * Unsubscribe from changes of states, the pattern stays subscribed at the database while other plugins subscribed it
+     *
+     * @param pattern id or pattern that was subscribed before
+     */
+    async unsubscribeStates(pattern: string): Promise<void> {
+        const statesDb = this.statesDb;
+        if (this.#stateSubscriptions.delete(pattern) && statesDb) {
+            await this.#unsubscribe(statesDb, pattern, () => statesDb.unsubscribe(pattern));
+        }
+    }
+
+    /**
+     * Subscribe to changes of objects, the changes are passed to `onObjectChange()`
+     * The subscriptions are removed automatically when the plugin is destroyed.
+     *
+     * @param pattern id or pattern with `*` as wildcard
+     */
+    async subscribeObjects(pattern: string): Promise<void> {
+        if (!this.objectsDb) {
+            throw new Error('Objects Database not initialized.');
+        }
+        const denied = this.#checkAccess(pattern, 'read');
+        if (denied) {
+            throw denied;
+        }
+        if (!this.#objectSubscriptions.has(pattern)) {
+            const objectsDb = this.objectsDb;
+            await this.#subscribe(objectsDb, pattern, () => objectsDb.subscribeAsync(pattern));
+            this.#objectSubscriptions.add(pattern);
+        }
+    }
+
+    /**
+     * Unsubscribe from changes of objects, the pattern stays subscribed at the database while other plugins subscribed it
+     *
+     * @param pattern id or pattern that was subscribed before
+     */
+    async unsubscribeObjects(pattern: string): Promise<void> {
+        const objectsDb = this.objectsDb;
+        if (this.#objectSubscriptions.delete(pattern) && objectsDb) {
+            await this.#unsubscribe(objectsDb, pattern, () => objectsDb.unsubscribeAsync(pattern, {}));
+        }
+    }
+
+    /**
+     * Provide a service to the other plugins of the handler, usually called in `init()`.
+     * The service is available to the other plugins while this plugin is active.
+     *
+     * @param name name of the service
+     * @param service the implementation of the service
+     */
+    provideService<T>(name: string, service: T): void {
+        const provider = this.#serviceRegistry.getProvider(name);
+        if (provider && provider !== this.pluginNamespace) {
+            throw new Error(`Service ${name} is already provided by ${provider}`);
+        }
+        this.#providedServices.set(name, service);
+        if (this.isActive) {
+            this.#serviceRegistry.register(name, this.pluginNamespace, service);
+        }
+    }
+
+    /**
+     * Get a service of another plugin, waits until the providing plugin is active.
+     * While `initPlugins()` runs, the wait fails if no other plugin is left to provide the service.
+     *
+     * @param name name of the service
+     * @param signal stops waiting for the service when aborted, e.g. the signal passed to `init()`
+     * @returns the implementation of the service
+     */
+    consumeService<T>(name: string, signal?: AbortSignal): Promise<T> {
+        return this.#serviceRegistry.waitFor(name, signal, this.pluginNamespace) as Promise<T>;
+    }
+
+    /**
+     * Call a function after a delay, the timer is cleared automatically when the plugin is destroyed
+     *
+     * @param callback function to call, errors are logged
+     * @param ms delay in milliseconds
+     * @returns the timer to pass to `clearTimeout()`
+     */
+    setTimeout(callback: () => void | Promise<void>, ms: number): NodeJS.Timeout {
+        const timer = setTimeout(() => {
+            this.#timers.delete(timer);
+            void this.#runTimerCallback(callback);
+        }, ms);
+        this.#timers.set(timer, this.#currentRun());
+        return timer;
+    }
+
+    /**
+     * Call a function repeatedly, the interval is cleared automatically when the plugin is destroyed
+     *
+     * @param callback function to call, errors are logged
+     * @param ms interval in milliseconds
+     * @returns the timer to pass to `clearInterval()`
+     */
+    setInterval(callback: () => void | Promise<void>, ms: number): NodeJS.Timeout {
+        const timer = setInterval(() => void this.#runTimerCallback(callback), ms);
+        this.#timers.set(timer, this.#currentRun());
+        return timer;
+    }
+
+    /**
+     * Clear a timer of `setTimeout()`
+     *
+     * @param timer the timer, nothing happens if it is undefined
+     */
+    clearTimeout(timer: NodeJS.Timeout | undefined): void {
+        if (timer) {
+            clearTimeout(timer);
+            this.#timers.delete(timer);
+        }
+    }
+
+    /**
+     * Clear a timer of `setInterval()`
+     *
+     * @param timer the timer, nothing happens if it is undefined
+     */
+    clearInterval(timer: NodeJS.Timeout | undefined): void {
+        if (timer) {
+            clearInterval(timer);
+            this.#timers.delete(timer);
+        }
+    }
+
+    /**
+     * Register a resource that is released when the plugin is destroyed or its initialization failed,
+     * e.g. a socket or a connection. The resources are released in the reverse order of their registration.
+     *
+     * @param disposable a function or an object with `Symbol.dispose` or `Symbol.asyncDispose`
+     * @returns the passed resource
+     */
+    registerDisposable<T extends PluginDisposable>(disposable: T): T {
+        this.#disposables.push({ disposable, run: this.#currentRun() });
+        return disposable;
+    }
+
+    /**
+     * Method for a Plugin developer to react on changes of the subscribed states
+     *
+     * @param _id id of the changed state
+     * @param _state the new state or null if it was deleted
+     */
+    onStateChange(_id: string, _state: ioBroker.State | null | undefined): void | Promise<void> {
+        // Implement in your Plugin instance if needed
+    }
+
+    /**
+     * Method for a Plugin developer to react on changes of the subscribed objects
+     *
+     * @param _id id of the changed object
+     * @param _obj the new object or null if it was deleted
+     */
+    onObjectChange(_id: string, _obj: ioBroker.Object | null | undefined): void | Promise<void> {
+        // Implement in your Plugin instance if needed
+    }
+
+    /**
+     * Check if the plugin may access an id, a denied access is logged
+     *
+     * @param id id of the object or state
+     * @param access the kind of access
+     * @returns the error to reject the access with, or null if it is allowed
+     */
+    #checkAccess(id: string, access: PluginAccess): Error | null {
+        if (isAccessAllowed(id, this.pluginNamespace, this.#permissions, access)) {
+            return null;
+        }
+        this.log.warn(
+            `Denied ${access} access to "${id}", because it is outside of the plugin namespace and not declared in the permissions`,
+        );
+        return new Error(`Plugin is not allowed to ${access} "${id}"`);
+    }
+
+    /**
+     * Check the access to several ids, a pattern is checked as a whole
+     *
+     * @param ids ids or patterns
+     * @param access the kind of access
+     * @throws {Error} if the plugin may not access one of the ids
+     */
+    #checkAllAccess(ids: string[], access: PluginAccess): void {
+        for (const id of ids) {
+            const denied = this.#checkAccess(id, access);
+            if (denied) {
+                throw denied;
+            }
+        }
+    }
+
+    /**
+     * Get the ids of a batch request
+     *
+     * @param idsOrPattern the ids or a pattern
+     * @param access the kind of access the ids are checked for
+     * @param getKeys resolves a pattern to the existing ids
+     */
+    async #resolveIds(
+        idsOrPattern: string[] | string,
+        access: PluginAccess,
+        getKeys: (pattern: string) => Promise<string[] | undefined>,
+    ): Promise<string[]> {
+        if (Array.isArray(idsOrPattern)) {
+            this.#checkAllAccess(idsOrPattern, access);
+            return idsOrPattern;
+        }
+        this.#checkAllAccess([idsOrPattern], access);
+        return ((await getKeys(idsOrPattern)) ?? []).sort();
+    }
+
     /****************************************
      * Internal methods!!
      ****************************************/
@@ -142,6 +690,13 @@ export default class PluginBase {
      */
     async setActive(active: boolean): Promise<void> {
         this.isActive = !!active;
+        this.#updateServices();
+        if (active) {
+            await this.setStatus('active');
+            await this.#setInfoState('startedAt', Date.now());
+        } else if (this.status === 'active') {
+            await this.setStatus('destroyed');
+        }
         await this.setState(`${this.pluginNamespace}.enabled`, {
             val: !!active,
             ack: true,
@@ -149,6 +704,292 @@ export default class PluginBase {
         });
     }
 
+    /**
+     * Check if a state change matches one of the subscriptions of the plugin
+     *
+     * @param id id of the changed state
+     * @internal
+     */
+    isStateSubscribed(id: string): boolean {
+        return [...this.#stateSubscriptions].some(pattern => matchesIdPattern(id, pattern));
+    }
+
+    /**
+     * Check if an object change matches one of the subscriptions of the plugin
+     *
+     * @param id id of the changed object
+     * @internal
+     */
+    isObjectSubscribed(id: string): boolean {
+        return [...this.#objectSubscriptions].some(pattern => matchesIdPattern(id, pattern));
+    }
+
+    /**
+     * The current values of the metrics of the plugin, for the Prometheus export of the handler
+     *
+     * @internal
+     */
+    getMetricsSnapshot(): PluginMetricSnapshot[] {
+        return this.metrics.snapshot();
+    }
+
+    /**
+     * The static declarations of the plugin class, they are needed before `init()` is called
+     *
+     * @param _signal aborted when the initialization takes too long
+     * @internal
+     */
+    loadDeclarations(_signal?: AbortSignal): Promise<PluginDeclarations> {
+        const { configSchema, objects, removeStaleObjects } = this.constructor as typeof PluginBase;
+        return Promise.resolve({ configSchema, objects, removeStaleObjects });
+    }
+
+    /**
+     * Release everything the plugin registered at the databases and the handler, when it is destroyed
+     *
+     * @internal
+     */
+    async releaseResources(): Promise<void> {
+        await this.metrics.flush();
+        await this.#disposeAll();
+        await this.#unsubscribeAll();
+        for (const name of this.#providedServices.keys()) {
+            this.#serviceRegistry.unregister(name, this.pluginNamespace);
+        }
+        this.#providedServices.clear();
+        // a destroyed plugin does not log anymore, so what was suppressed is written now
+        this.log.flush();
+    }
+
+    /**
+     * Register the provided services while the plugin is active and withdraw them otherwise
+     */
+    #updateServices(): void {
+        for (const [name, service] of this.#providedServices) {
+            if (!this.isActive) {
+                this.#serviceRegistry.unregister(name, this.pluginNamespace);
+                continue;
+            }
+            try {
+                this.#serviceRegistry.register(name, this.pluginNamespace, service);
+            } catch (err) {
+                this.log.warn(`Cannot provide service ${name}`, err);
+            }
+        }
+    }
+
+    /**
+     * Run the callback of a timer, a failing callback does not affect the parent
+     *
+     * @param callback the callback of the timer
+     */
+    async #runTimerCallback(callback: () => void | Promise<void>): Promise<void> {
+        try {
+            await callback();
+        } catch (err) {
+            this.log.error('Timer callback failed', err);
+        }
+    }
+
+    /** The initialization the calling code belongs to, the last one for code that does not run within `init()` */
+    #currentRun(): number {
+        return initRun.getStore() ?? this.#initRuns;
+    }
+
+    /**
+     * Clear the timers and release the registered resources
+     *
+     * @param run only release the ones of this initialization
+     */
+    async #disposeAll(run?: number): Promise<void> {
+        for (const [timer, timerRun] of this.#timers) {
+            if (run === undefined || timerRun === run) {
+                clearTimeout(timer);
+                this.#timers.delete(timer);
+            }
+        }
+
+        const disposables = this.#disposables.filter(entry => run === undefined || entry.run === run);
+        this.#disposables = this.#disposables.filter(entry => !disposables.includes(entry));
+        for (const { disposable } of disposables.reverse()) {
+            try {
+                if (typeof disposable === 'function') {
+                    await disposable();
+                } else if (Symbol.asyncDispose in disposable) {
+                    await disposable[Symbol.asyncDispose]();
+                } else {
+                    disposable[Symbol.dispose]();
+                }
+            } catch (err) {
+                this.log.warn('Cannot release a resource', err);
+            }
+        }
+    }
+
+    /**
+     * Subscribe a pattern at a database client, unless another plugin already subscribed it there
+     *
+     * @param client the database client
+     * @param pattern id or pattern with `*` as wildcard
+     * @param subscribe subscribes the pattern at the client
+     */
+    async #subscribe(client: object, pattern: string, subscribe: () => Promise<unknown>): Promise<void> {
+        if (!this.#subscriptionRegistry.acquire(client, pattern)) {
+            return;
+        }
+        try {
+            await subscribe();
+        } catch (err) {
+            this.#subscriptionRegistry.release(client, pattern);
+            throw err;
+        }
+    }
+
+    /**
+     * Unsubscribe a pattern at a database client, if no other plugin subscribed it there
+     *
+     * @param client the database client
+     * @param pattern id or pattern that was subscribed before
+     * @param unsubscribe unsubscribes the pattern at the client
+     */
+    async #unsubscribe(client: object, pattern: string, unsubscribe: () => Promise<unknown>): Promise<void> {
+        if (this.#subscriptionRegistry.release(client, pattern)) {
+            await unsubscribe();
+        }
+    }
+
+    /** Remove all subscriptions of the plugin */
+    async #unsubscribeAll(): Promise<void> {
+        for (const pattern of this.#stateSubscriptions) {
+            try {
+                await this.unsubscribeStates(pattern);
+            } catch (err) {
+                this.log.debug(`Cannot unsubscribe states ${pattern}`, err);
+            }
+        }
+        for (const pattern of this.#objectSubscriptions) {
+            try {
+                await this.unsubscribeObjects(pattern);
+            } catch (err) {
+                this.log.debug(`Cannot unsubscribe objects ${pattern}`, err);
+            }
+        }
+    }
+
+    /**
+     * Set the lifecycle status of the plugin and write it to the info states
+     *
+     * @param status the new status
+     * @param error the error that made the plugin fail, written to `info.lastError`
+     * @internal
+     */
+    async setStatus(status: PluginStatus, error?: Error | string): Promise<void> {
+        this.status = status;
+        await this.#setInfoState('status', status);
+        if (error !== undefined) {
+            this.lastError = error instanceof Error ? error : new Error(error);
+            await this.#setInfoState('lastError', this.lastError.message);
+        }
+    }
+
+    /**
+     * Write how long the initialization of the plugin took
+     *
+     * @param duration duration in milliseconds
+     * @internal
+     */
+    async setInitDuration(duration: number): Promise<void> {
+        await this.#setInfoState('initDurationMs', duration);
+    }
+
+    /**
+     * Write one of the info states, the info states are informative only and never make a lifecycle phase fail
+     *
+     * @param name name of the state below `<pluginNamespace>.info`
+     * @param val the value
+     */
+    async #setInfoState(name: keyof typeof INFO_STATES, val: ioBroker.StateValue): Promise<void> {
+        try {
+            await this.setState(`${this.pluginNamespace}.info.${name}`, {
+                val,
+                ack: true,
+                from: this.pluginNamespace,
+            });
+        } catch (err) {
+            this.log.debug(`Cannot write info.${name}`, err);
+        }
+    }
+
+    /**
+     * Change the log level of the plugin at runtime and acknowledge it in `<pluginNamespace>.logLevel`
+     *
+     * @param level one of the log levels, `null` or an empty string to log with the level of the parent again
+     * @internal
+     */
+    async setLogLevel(level: unknown): Promise<void> {
+        this.#applyLogLevel(level);
+        await this.#writeLogLevel();
+    }
+
+    /**
+     * Set the level of the logger of the plugin, an invalid level is ignored
+     *
+     * @param level one of the log levels, without a level the level of the parent applies
+     */
+    #applyLogLevel(level: unknown): void {
+        if (level === undefined || level === null || level === '') {
+            this.log.setLevel();
+        } else if (isLogLevel(level)) {
+            this.log.setLevel(level);
+        } else {
+            this.log.warn(`Invalid log level ${JSON.stringify(level)}, expected one of ${LOG_LEVELS.join(', ')}`);
+        }
+    }
+
+    /** Write the log level the plugin logs with to `<pluginNamespace>.logLevel` */
+    async #writeLogLevel(): Promise<void> {
+        try {
+            await this.setState(`${this.pluginNamespace}.logLevel`, {
+                val: this.log.level,
+                ack: true,
+                from: this.pluginNamespace,
+            });
+        } catch (err) {
+            this.log.debug('Cannot write logLevel', err);
+        }
+    }
+
+    /**
+     * If the configuration was accepted by `initPlugin()`, which is required to enable or restart the plugin
+     *
+     * @internal
+     */
+    get isConfigured(): boolean {
+        return !!this.#pluginConfig;
+    }
+
+    /**
+     * The configuration accepted by `initPlugin()`, with the defaults of the schema applied and its values coerced
+     *
+     * @internal
+     */
+    get pluginConfig(): PluginConfig<TConfig> | undefined {
+        return this.#pluginConfig;
+    }
+
+    /**
+     * Initialize the plugin again with the configuration of `initPlugin()`, after it was enabled at runtime or to restart it
+     *
+     * @param signal aborted when the initialization takes too long
+     * @internal
+     */
+    async enable(signal?: AbortSignal): Promise<void> {
+        if (!this.#pluginConfig) {
+            throw new Error('Plugin was not initialized before');
+        }
+        await this.#initialize(this.#pluginConfig, true, signal);
+    }
+
     /**
      * @internal
      * Set the objects and states database to be used internally
@@ -166,11 +1007,24 @@ export default class PluginBase {
      *
      * @param pluginConfig plugin configuration from config files
      * @param parentConfig io-package from parent module where plugin is used in
+     * @param signal aborted when the initialization takes too long, passed on to `init()`
      */
-    async initPlugin(pluginConfig: Record<string, any>, parentConfig: IoPackageFile): Promise<void> {
+    async initPlugin(
+        pluginConfig: PluginConfig<TConfig>,
+        parentConfig: IoPackageFile,
+        signal?: AbortSignal,
+    ): Promise<void> {
         if (!pluginConfig) {
             throw new Error('No configuration for plugin');
         }
+        const declarations = await this.loadDeclarations(signal);
+        pluginConfig = this.#validateConfig(pluginConfig, declarations.configSchema);
+        this.#pluginConfig = pluginConfig;
+        this.#applyLogLevel(pluginConfig.logLevel);
+        this.#permissions = mergePermissions(
+            getPluginManifest(this.pluginPackage).permissions,
+            pluginConfig.permissions,
+        );
         this.parentIoPackage = parentConfig;
 
         let pluginEnabledState: ioBroker.State | null | undefined | void;
@@ -193,6 +1047,38 @@ export default class PluginBase {
                 },
                 native: {},
             });
+            await this.extendObject(`${this.pluginNamespace}.logLevel`, {
+                type: 'state',
+                common: {
+                    name: 'Plugin - log level',
+                    type: 'string',
+                    read: true,
+                    write: true,
+                    role: 'text',
+                    states: Object.fromEntries(LOG_LEVELS.map(level => [level, level])),
+                },
+                native: {},
+            });
+
+            await this.extendObject(`${this.pluginNamespace}.info`, {
+                type: 'channel',
+                common: {
+                    name: 'Plugin information',
+                },
+                native: {},
+            });
+            for (const [name, common] of Object.entries(INFO_STATES)) {
+                await this.extendObject(`${this.pluginNamespace}.info.${name}`, {
+                    type: 'state',
+                    common,
+                    native: {},
+                });
+            }
+            // replaces the status of the last run of the parent
+            await this.setStatus(this.status);
+            await this.#setInfoState('version', this.pluginPackage.version ?? null);
+            await this.#writeLogLevel();
+            await this.#syncDeclaredObjects(declarations);
 
             pluginEnabledState = await this.getState(`${this.pluginNamespace}.enabled`);
         } catch {
@@ -200,7 +1086,7 @@ export default class PluginBase {
         }
         if (pluginEnabledState && typeof pluginEnabledState.val !== 'object' && pluginEnabledState.val !== undefined) {
             // We already have an enabled flag state, use it
-            await this.#initialize(pluginConfig, !!pluginEnabledState.val);
+            await this.#initialize(pluginConfig, !!pluginEnabledState.val, signal);
             return;
         }
 
@@ -214,32 +1100,143 @@ export default class PluginBase {
 
             let hostState: ioBroker.State | null | undefined | void;
             try {
-                hostState = await this.getState(`${hostNamespace}.enabled`);
+                // the host namespace is outside the plugin namespace, so the permissions do not apply
+                hostState = await this.statesDb?.getStateAsync(`${hostNamespace}.enabled`);
             } catch {
                 // ignore
             }
             if (hostState && typeof hostState.val !== 'object' && hostState.val !== undefined) {
                 // We simply use the host enabled flag state
-                await this.#initialize(pluginConfig, !!hostState.val);
+                await this.#initialize(pluginConfig, !!hostState.val, signal);
                 return;
             }
         }
 
-        await this.#initialize(pluginConfig, pluginConfig.enabled === undefined ? true : !!pluginConfig.enabled);
+        await this.#initialize(
+            pluginConfig,
+            pluginConfig.enabled === undefined ? true : !!pluginConfig.enabled,
+            signal,
+        );
+    }
+
+    /**
+     * Create or update the declared objects of the plugin and remove the stale ones, if the plugin wants that.
+     * A failure is logged and does not prevent the initialization.
+     *
+     * @param declarations the declarations of the plugin class, they override the ones of the manifest
+     */
+    async #syncDeclaredObjects(declarations: PluginDeclarations): Promise<void> {
+        const manifest = getPluginManifest(this.pluginPackage);
+        const definitions = declarations.objects ?? manifest.objects ?? [];
+        const removeStale = declarations.removeStaleObjects ?? manifest.removeStaleObjects ?? false;
+
+        // nothing is created or removed based on a broken declaration
+        const invalid = definitions.find(
+            definition =>
+                !definition?._id || typeof definition._id !== 'string' || !OBJECT_TYPES.includes(definition.type),
+        );
+        if (invalid) {
+            this.log.warn(
+                `Invalid object definition ${JSON.stringify(invalid)}, the objects of the plugin are not created`,
+            );
+            return;
+        }
+
+        try {
+            const declared = new Set<string>();
+            for (const definition of definitions) {
+                const id = `${this.pluginNamespace}.${definition._id}`;
+                declared.add(id);
+                await this.extendObject(id, {
+                    type: definition.type,
+                    common: definition.common,
+                    native: definition.native ?? {},
+                });
+                if (definition.type === 'state' && definition.common?.def !== undefined && !(await this.getState(id))) {
+                    await this.setState(id, { val: definition.common.def, ack: true, from: this.pluginNamespace });
+                }
+            }
+            if (removeStale) {
+                await this.#removeStaleObjects(declared);
+            }
+        } catch (err) {
+            this.log.warn('Cannot create the objects of the plugin', err);
+        }
+    }
+
+    /**
+     * Delete the objects and states below the plugin namespace that are neither declared nor managed by the base class
+     *
+     * @param declared ids of the declared objects
+     */
+    async #removeStaleObjects(declared: Set<string>): Promise<void> {
+        const objects = await this.getObjects(`${this.pluginNamespace}.*`);
+        for (const id of Object.keys(objects)) {
+            const relativeId = id.substring(this.pluginNamespace.length + 1);
+            const keep =
+                declared.has(id) ||
+                BUILT_IN_OBJECTS.some(builtIn => relativeId === builtIn || relativeId.startsWith(`${builtIn}.`)) ||
+                // parents of declared objects are kept, even if they are not declared themselves
+                [...declared].some(declaredId => declaredId.startsWith(`${id}.`));
+            if (keep) {
+                continue;
+            }
+            this.log.info(`Remove stale object ${relativeId}`);
+            await this.delObject(id);
+            if (objects[id].type === 'state') {
+                await this.delState(id);
+            }
+        }
+    }
+
+    /**
+     * Validate the plugin configuration against the schema of the plugin, if it has one
+     *
+     * @param pluginConfig plugin configuration from config files
+     * @param classSchema the schema declared by the plugin class, it overrides the one of the manifest
+     * @returns the configuration with defaults applied and values coerced
+     */
+    #validateConfig(pluginConfig: PluginConfig<TConfig>, classSchema?: PluginConfigSchema): PluginConfig<TConfig> {
+        const schema = classSchema ?? getPluginManifest(this.pluginPackage).configSchema;
+        if (!schema) {
+            return pluginConfig;
+        }
+
+        const { config, errors } = validatePluginConfig(schema, pluginConfig);
+        if (errors.length) {
+            this.log.error(`Invalid plugin configuration (${errors.length} error${errors.length > 1 ? 's' : ''}):`);
+            for (const error of errors) {
+                this.log.error(`- ${error}`);
+            }
+            throw new Error(`Invalid plugin configuration: ${errors.join(', ')}`);
+        }
+        return config as PluginConfig<TConfig>;
     }
 
     /**
      * @internal
      */
-    async #initialize(pluginConfig: Record<string, any>, activate: string | boolean): Promise<void> {
+    async #initialize(pluginConfig: PluginConfig<TConfig>, activate: boolean, signal?: AbortSignal): Promise<void> {
         if (activate) {
             this.log.debug(`Initialize Plugin (enabled=${activate})`);
             pluginConfig.enabled = activate;
+            const run = ++this.#initRuns;
             try {
-                await this.init(pluginConfig);
+                await this.setStatus('initializing');
+                await initRun.run(run, () => this.init(pluginConfig, signal));
+                // the handler gave up on the plugin in the meantime
+                signal?.throwIfAborted();
                 await this.setActive(true);
             } catch (err) {
-                this.log.error(`Failed to initialize plugin: ${err instanceof Error ? err.message : String(err)}`);
+                if (run !== this.#initRuns) {
+                    // the plugin was initialized again meanwhile, the new run must not be affected
+                    this.log.warn('An initialization finished after the plugin was initialized again', err);
+                    await this.#disposeAll(run);
+                    return;
+                }
+                this.log.error('Failed to initialize plugin', err);
+                await this.releaseResources();
+                await this.setStatus('failed', err);
                 await this.setActive(false);
             }
         } else {
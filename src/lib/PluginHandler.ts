@@ -1,23 +1,103 @@
-import type { IoPackageFile, PluginHandlerSettings, PluginSettings } from '../types';
+import { EventEmitter } from 'node:events';
+import { realpathSync } from 'node:fs';
+import { sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type {
+    IoPackageFile,
+    PluginConfig,
+    PluginErrorContext,
+    PluginErrorPhase,
+    PluginHandlerEvents,
+    PluginHandlerSettings,
+    PluginIncompatibility,
+    PluginIsolation,
+    PluginLifecycleEvent,
+    PluginMetricSnapshot,
+    PluginPurgeResult,
+    PluginRestartPolicy,
+    PluginSettings,
+    PluginTimeouts,
+} from '../types';
+import IsolatedPlugin from './IsolatedPlugin';
 import NamespaceLogger from './NamespaceLogger';
 import type PluginBase from './PluginBase';
+import { formatPrometheus } from './PluginMetrics';
+import ServiceRegistry from './ServiceRegistry';
+import SubscriptionRegistry from './SubscriptionRegistry';
+import {
+    findDependencyCycles,
+    getPluginDependencies,
+    sortByDependencies,
+    type PluginDependencies,
+} from './pluginDependencies';
+import { checkPluginCompatibility, getPluginManifest } from './pluginManifest';
+import {
+    findPackageOfFile,
+    findPluginPackage,
+    getPluginClass,
+    getPluginPackageName,
+    resolvePackageEntry,
+    type PluginPackage,
+} from './pluginResolver';
 import type { Client as StatesInRedisClient } from '@iobroker/db-states-redis';
 import type { Client as ObjectsInRedisClient } from '@iobroker/db-objects-redis';
 
-type PluginInstance = PluginBase | null;
+type PluginInstance = PluginBase<any> | null;
+
+/** Where and how the code of a plugin was loaded from */
+interface PluginSource {
+    resolveDirs: string[];
+    loader: 'require' | 'import';
+    /** The package of the plugin, if it could be determined */
+    pluginPackage: PluginPackage | null;
+}
 
 interface PluginEntry {
-    config: Record<string, any>;
+    config: PluginConfig;
     instance?: PluginInstance;
+    source?: PluginSource;
+    /** The databases set via `setDatabaseForPlugin()`, to apply them again after a reload */
+    objectsDb?: ObjectsInRedisClient;
+    statesDb?: StatesInRedisClient;
+    /** Set if the plugin was refused because of its manifest */
+    incompatibility?: PluginIncompatibility;
+    /** If the enabled and the logLevel state of the plugin are subscribed */
+    watchesControlStates?: boolean;
+    /** Changes of the enabled state are processed one after the other */
+    enabledChange?: Promise<void>;
+    /** Set if the plugin was not initialized because of its dependencies */
+    skipReason?: string;
+    /** Number of restarts in a row, according to the restart policy */
+    restartAttempts?: number;
+    /** Timer of the next restart */
+    restartTimer?: NodeJS.Timeout;
+    /** Set while a failure reported via `fail()` is handled, further failures of the same run are ignored */
+    failing?: boolean;
+    /** When the plugin became active the last time */
+    activeSince?: number;
 }
 
-/** Base handler for ioBroker Plugins */
-export default class PluginHandler {
+/** Base handler for ioBroker Plugins, it emits the lifecycle events of the plugins */
+export default class PluginHandler extends EventEmitter<PluginHandlerEvents> {
     #settings: PluginHandlerSettings;
     #log: NamespaceLogger;
     #plugins: Record<string, PluginEntry> = {};
+    /** The io-package of the parent, as passed on the last initialization */
+    #parentConfig?: IoPackageFile;
+    /** Number of reloads per plugin, used to bypass the import cache */
+    #reloads: Record<string, number> = {};
+    /** Services the plugins provide to each other */
+    #services = new ServiceRegistry();
+    /** Subscriptions of the plugins, the plugins share the database clients of the parent */
+    #subscriptions = new SubscriptionRegistry();
+    /** Names of all plugins that were added, also of those that could not be loaded */
+    #configured = new Set<string>();
+    /** The databases set via `setDatabaseForPlugins()`, for the namespaces of plugins without instance */
+    #objectsDb?: ObjectsInRedisClient;
+    #statesDb?: StatesInRedisClient;
 
     constructor(settings: PluginHandlerSettings) {
+        super();
         this.#settings = settings;
         this.#log = new NamespaceLogger(this.#settings.logNamespace, settings.log);
     }
@@ -40,6 +120,26 @@ export default class PluginHandler {
         });
     }
 
+    /**
+     * Add plugins to the handler, resolve and load the plugin code via `import()` and create instance
+     *
+     * In contrast to `addPlugins()` this also supports plugins that are only published as ES modules.
+     *
+     * @param configs object with keys for plugin names and their configuration
+     * @param resolveDirs Resolve directories for plugins. Controller directory in 'controller' context or adapter directory and controller directory in 'adapter' context
+     */
+    async addPluginsAsync(
+        configs: { [pluginName: string]: Record<string, any> } = {},
+        resolveDirs: string | [adapterDir: string, jsControllerDir: string],
+    ): Promise<void> {
+        if (!configs) {
+            return;
+        }
+        for (const plugin of Object.keys(configs)) {
+            await this.instantiatePluginAsync(plugin, configs[plugin], resolveDirs);
+        }
+    }
+
     /**
      * Resolve, Require and instantiate Plugins
      *
@@ -48,6 +148,7 @@ export default class PluginHandler {
      * @param resolveDirsOrDir Resolve directories
      */
     instantiatePlugin(name: string, config: Record<string, any>, resolveDirsOrDir: string | string[]): void {
+        this.#configured.add(name);
         if (this.#plugins[name]?.instance) {
             this.#log.info(`Ignore duplicate plugin ${name}`);
             return;
@@ -57,31 +158,144 @@ export default class PluginHandler {
 
         let pluginPath: string;
         try {
-            pluginPath = require.resolve(`@iobroker/plugin-${name}`, {
+            pluginPath = require.resolve(getPluginPackageName(name), {
                 paths: resolveDirs,
             });
         } catch {
-            this.#log.error(`Plugin ${name} could not be resolved`);
+            this.#resolveFailed(name, new Error(`Plugin ${name} could not be resolved`));
             return;
         }
         if (!pluginPath) {
-            this.#log.error(`Plugin ${name} could not be resolved`);
+            this.#resolveFailed(name, new Error(`Plugin ${name} could not be resolved`));
+            return;
+        }
+
+        const source: PluginSource = {
+            resolveDirs,
+            loader: 'require',
+            pluginPackage: findPackageOfFile(name, pluginPath),
+        };
+        if (!this.#checkCompatibility(name, config, source)) {
+            return;
+        }
+        if (this.#createIsolatedInstance(name, config, source, pluginPath)) {
             return;
         }
 
         let ResolvedPlugin: typeof PluginBase;
         try {
-            ResolvedPlugin = require(pluginPath);
-            // @ts-expect-error Some plugins export like this
-            if (ResolvedPlugin.default) {
-                // @ts-expect-error Some plugins export like this
-                ResolvedPlugin = ResolvedPlugin.default;
-            }
+            ResolvedPlugin = getPluginClass(require(pluginPath));
         } catch (e: unknown) {
-            this.#log.error(`Plugin ${name} could not be required: ${(e as Error).message}`);
+            this.#log.error(`Plugin ${name} could not be required`, e as Error);
+            this.#reportError(name, 'load', e);
+            this.#emit('resolveFailed', { name, error: e as Error });
             return;
         }
 
+        this.#createInstance(name, config, source, settings => new ResolvedPlugin(settings));
+    }
+
+    /**
+     * Resolve, Import and instantiate Plugins
+     *
+     * The plugin is resolved with the `import` conditions of its `exports` map and loaded via `import()`,
+     * so ESM-only plugins are supported as well as CommonJS plugins.
+     *
+     * @param name name of the plugin
+     * @param config plugin configuration
+     * @param resolveDirsOrDir Resolve directories
+     */
+    async instantiatePluginAsync(
+        name: string,
+        config: Record<string, any>,
+        resolveDirsOrDir: string | string[],
+    ): Promise<void> {
+        this.#configured.add(name);
+        if (this.#plugins[name]?.instance) {
+            this.#log.info(`Ignore duplicate plugin ${name}`);
+            return;
+        }
+
+        const resolveDirs = typeof resolveDirsOrDir === 'string' ? [resolveDirsOrDir] : resolveDirsOrDir;
+
+        const pluginPackage = findPluginPackage(name, resolveDirs);
+        const pluginPath = pluginPackage ? resolvePackageEntry(pluginPackage) : null;
+        if (!pluginPath) {
+            this.#resolveFailed(name, new Error(`Plugin ${name} could not be resolved`));
+            return;
+        }
+        const source: PluginSource = { resolveDirs, loader: 'import', pluginPackage };
+        if (!this.#checkCompatibility(name, config, source)) {
+            return;
+        }
+        if (this.#createIsolatedInstance(name, config, source, pluginPath)) {
+            return;
+        }
+
+        const pluginUrl = pathToFileURL(pluginPath);
+        if (this.#reloads[name]) {
+            // modules cannot be removed from the import cache, so a reloaded plugin needs a new URL
+            pluginUrl.search = `reload=${this.#reloads[name]}`;
+        }
+
+        let ResolvedPlugin: typeof PluginBase;
+        try {
+            ResolvedPlugin = getPluginClass(await import(pluginUrl.href));
+        } catch (e: unknown) {
+            this.#log.error(`Plugin ${name} could not be imported`, e as Error);
+            this.#reportError(name, 'load', e);
+            this.#emit('resolveFailed', { name, error: e as Error });
+            return;
+        }
+
+        this.#createInstance(name, config, source, settings => new ResolvedPlugin(settings));
+    }
+
+    /**
+     * Check the manifest of a plugin before it is loaded, an incompatible plugin is registered without instance
+     *
+     * @param name name of the plugin
+     * @param config plugin configuration
+     * @param source where the plugin is loaded from
+     * @returns true if the plugin can be loaded
+     */
+    #checkCompatibility(name: string, config: Record<string, any>, source: PluginSource): boolean {
+        const incompatibility = checkPluginCompatibility(
+            getPluginManifest(source.pluginPackage?.packageJson),
+            this.#settings,
+        );
+        if (!incompatibility) {
+            return true;
+        }
+
+        this.#log.warn(`Plugin ${name} is not compatible and will not be loaded: ${incompatibility.message}`);
+        this.#plugins[name] = {
+            config,
+            instance: null,
+            source,
+            incompatibility,
+        };
+        const error = new Error(`Plugin ${name} ${incompatibility.message}`);
+        this.#reportError(name, 'resolve', error);
+        this.#emit('resolveFailed', { name, error });
+        return false;
+    }
+
+    /**
+     * Create the instance of a resolved and loaded plugin
+     *
+     * @param name name of the plugin
+     * @param config plugin configuration
+     * @param source where the plugin was loaded from
+     * @param createPlugin creates the instance with the settings of the plugin
+     */
+    #createInstance(
+        name: string,
+        config: Record<string, any>,
+        source: PluginSource,
+        createPlugin: (settings: PluginSettings) => PluginBase<any>,
+    ): void {
+        const { resolveDirs, pluginPackage } = source;
         const pluginSettings: PluginSettings = {
             pluginScope: this.#settings.scope,
             parentNamespace: this.#settings.namespace,
@@ -93,18 +307,280 @@ export default class PluginHandler {
             controllerVersion: this.#settings.controllerVersion,
             adapterDir: resolveDirs.length > 1 ? resolveDirs[0] : undefined,
             jsControllerDir: resolveDirs.length > 1 ? resolveDirs[1] : resolveDirs[0],
+            pluginPackage: pluginPackage?.packageJson,
+            services: this.#services,
+            subscriptions: this.#subscriptions,
+            reportFailure: error => this.#handleFailure(name, pluginSettings, error),
+            reportError: (error, context) => this.#reportError(name, 'report', error, context),
+            metricsInterval: this.#settings.metricsInterval,
+            logLimits: this.#settings.logLimits,
         };
 
         this.#plugins[name] = {
             config,
+            source,
         };
 
         try {
-            this.#plugins[name].instance = new ResolvedPlugin(pluginSettings);
+            this.#plugins[name].instance = createPlugin(pluginSettings);
         } catch (e: unknown) {
-            this.#log.error(`Plugin ${name} could not be initialized: ${(e as Error).message}`);
+            this.#log.error(`Plugin ${name} could not be initialized`, e as Error);
+            this.#reportError(name, 'instantiate', e);
             this.#plugins[name].instance = null;
+            this.#emit('resolveFailed', { name, error: e as Error });
+            return;
         }
+        this.#emit('instantiated', { name });
+    }
+
+    /**
+     * Create the stand-in of a plugin that is configured to run in a worker thread, its code is only loaded in the worker
+     *
+     * @param name name of the plugin
+     * @param config plugin configuration
+     * @param source where the plugin is loaded from
+     * @param entry the resolved entry point of the plugin
+     * @returns false if the plugin is not isolated
+     */
+    #createIsolatedInstance(name: string, config: Record<string, any>, source: PluginSource, entry: string): boolean {
+        const isolation: boolean | PluginIsolation | undefined = config?.isolation;
+        if (!isolation) {
+            return false;
+        }
+
+        const resourceLimits = isolation === true ? undefined : isolation.resourceLimits;
+        this.#createInstance(
+            name,
+            config,
+            source,
+            settings => new IsolatedPlugin(settings, { entry, loader: source.loader, resourceLimits }),
+        );
+        return true;
+    }
+
+    /**
+     * Log and report that a plugin could not be resolved
+     *
+     * @param name name of the plugin
+     * @param error what went wrong
+     */
+    #resolveFailed(name: string, error: Error): void {
+        this.#log.error(error.message);
+        this.#reportError(name, 'resolve', error);
+        this.#emit('resolveFailed', { name, error });
+    }
+
+    /**
+     * Pass an error of a plugin to the `onError` hook of the settings, a failing hook does not affect the handler
+     *
+     * @param name name of the plugin
+     * @param phase where the error occurred
+     * @param error what went wrong
+     * @param fields further fields that describe the situation
+     */
+    #reportError(name: string, phase: PluginErrorPhase, error: unknown, fields: Record<string, unknown> = {}): void {
+        const onError = this.#settings.onError;
+        if (!onError) {
+            return;
+        }
+
+        const context: PluginErrorContext = {
+            ...fields,
+            pluginName: name,
+            pluginVersion: this.#plugins[name]?.source?.pluginPackage?.packageJson.version,
+            pluginNamespace: `${this.#settings.namespace}.plugins.${name}`,
+            pluginScope: this.#settings.scope,
+        };
+        const err = error instanceof Error ? error : new Error(String(error));
+        try {
+            Promise.resolve(onError(name, phase, err, context)).catch(hookError =>
+                this.#log.warn(`The error hook failed for plugin ${name}`, hookError),
+            );
+        } catch (hookError) {
+            this.#log.warn(`The error hook failed for plugin ${name}`, hookError);
+        }
+    }
+
+    /**
+     * Emit a lifecycle event, a failing listener does not affect the handler
+     *
+     * @param event name of the event
+     * @param payload the plugin the event is about
+     */
+    #emit(event: keyof PluginHandlerEvents, payload: PluginLifecycleEvent): void {
+        try {
+            this.emit(event, payload);
+        } catch (err) {
+            this.#log.warn(`A listener of the event ${event} of plugin ${payload.name} failed`, err);
+        }
+    }
+
+    /**
+     * Report the result of the initialization of a plugin, and schedule a restart if it failed
+     *
+     * @param name name of the plugin
+     * @param instance the plugin instance
+     * @param durationMs duration of the initialization
+     * @returns true if the plugin is restarted later
+     */
+    #initFinished(name: string, instance: PluginBase<any>, durationMs: number): boolean {
+        if (instance.status === 'active') {
+            this.#plugins[name].activeSince = Date.now();
+            this.#emit('initialized', { name, durationMs });
+            this.#emit('activated', { name });
+        } else if (instance.status === 'failed') {
+            this.#reportError(name, 'init', instance.lastError ?? new Error(`Plugin ${name} could not be initialized`));
+            this.#emit('initFailed', { name, durationMs, error: instance.lastError ?? undefined });
+            // without accepted configuration the plugin cannot be restarted
+            return instance.isConfigured && this.#scheduleRestart(name);
+        }
+        return false;
+    }
+
+    /**
+     * Destroy a plugin that failed, it may be initialized again afterward
+     *
+     * @param name name of the plugin
+     * @param instance the plugin instance
+     */
+    async #cleanUpFailedPlugin(name: string, instance: PluginBase<any>): Promise<void> {
+        try {
+            await this.#withTimeout(name, 'destroy', signal => instance.destroy(signal));
+        } catch (err) {
+            this.#log.warn(`Cannot destroy plugin ${name}`, err);
+            this.#reportError(name, 'destroy', err);
+        }
+        await instance.releaseResources();
+    }
+
+    /**
+     * Destroy a plugin that reported a fatal error via `fail()` and restart it according to the restart policy
+     *
+     * @param name name of the plugin
+     * @param settings the settings of the failed instance, to ignore instances that were replaced in the meantime
+     * @param error the reported error
+     */
+    async #handleFailure(name: string, settings: PluginSettings, error: Error): Promise<void> {
+        const plugin = this.#plugins[name];
+        const instance = plugin?.instance;
+        if (!instance?.isActive || instance.settings !== settings || plugin.failing) {
+            return;
+        }
+        // the plugin stays active until it is cleaned up, so overlapping failures are stopped here
+        plugin.failing = true;
+
+        try {
+            this.#reportError(name, 'runtime', error);
+            await this.#cleanUpFailedPlugin(name, instance);
+            await instance.setActive(false);
+            await instance.setStatus('failed', error);
+            this.#emit('deactivated', { name });
+            this.#scheduleRestart(name);
+        } catch (err) {
+            // the failure may be reported by the stand-in of an isolated plugin, which cannot handle a rejection
+            this.#log.error(`Failure of plugin ${name} could not be handled`, err);
+        } finally {
+            plugin.failing = false;
+        }
+    }
+
+    /**
+     * Get the restart policy of a plugin, the plugin configuration wins over the handler settings
+     *
+     * @param name name of the plugin
+     */
+    #getRestartPolicy(name: string): Required<PluginRestartPolicy> {
+        const handlerPolicy = this.#settings.restart;
+        const pluginPolicy = this.#plugins[name]?.config?.restart;
+        return {
+            maxAttempts: pluginPolicy?.maxAttempts ?? handlerPolicy?.maxAttempts ?? 0,
+            initialDelay: pluginPolicy?.initialDelay ?? handlerPolicy?.initialDelay ?? 1000,
+            maxDelay: pluginPolicy?.maxDelay ?? handlerPolicy?.maxDelay ?? 60000,
+            jitter: pluginPolicy?.jitter ?? handlerPolicy?.jitter ?? 0.2,
+            resetAfter: pluginPolicy?.resetAfter ?? handlerPolicy?.resetAfter ?? 60000,
+        };
+    }
+
+    /**
+     * Restart a failed plugin later, if the restart policy allows it and no restart is scheduled yet
+     *
+     * @param name name of the plugin
+     * @returns true if a restart was scheduled
+     */
+    #scheduleRestart(name: string): boolean {
+        const plugin = this.#plugins[name];
+        if (plugin.restartTimer) {
+            // a restart is already scheduled
+            return true;
+        }
+        const policy = this.#getRestartPolicy(name);
+        if (plugin.activeSince !== undefined && Date.now() - plugin.activeSince >= policy.resetAfter) {
+            plugin.restartAttempts = 0;
+        }
+        plugin.activeSince = undefined;
+
+        const attempts = plugin.restartAttempts ?? 0;
+        if (attempts >= policy.maxAttempts) {
+            if (policy.maxAttempts) {
+                this.#log.error(`Plugin ${name} is not restarted anymore after ${attempts} attempts`);
+            }
+            return false;
+        }
+
+        plugin.restartAttempts = attempts + 1;
+        const delay = Math.min(policy.maxDelay, policy.initialDelay * 2 ** attempts);
+        const jitteredDelay = Math.round(delay + delay * policy.jitter * Math.random());
+        this.#log.info(
+            `Plugin ${name} is restarted in ${jitteredDelay}ms (attempt ${plugin.restartAttempts} of ${policy.maxAttempts})`,
+        );
+        plugin.restartTimer = setTimeout(() => {
+            plugin.restartTimer = undefined;
+            void this.#restartPlugin(name);
+        }, jitteredDelay);
+        return true;
+    }
+
+    /**
+     * Stop a scheduled restart, e.g. because the plugin is destroyed
+     *
+     * @param name name of the plugin
+     */
+    #cancelRestart(name: string): void {
+        const plugin = this.#plugins[name];
+        if (plugin?.restartTimer) {
+            clearTimeout(plugin.restartTimer);
+            plugin.restartTimer = undefined;
+        }
+        if (plugin) {
+            plugin.restartAttempts = 0;
+        }
+    }
+
+    /**
+     * Initialize a failed plugin again
+     *
+     * @param name name of the plugin
+     */
+    async #restartPlugin(name: string): Promise<void> {
+        const instance = this.#plugins[name]?.instance;
+        if (!instance) {
+            return;
+        }
+
+        this.#log.info(`Restart plugin ${name}`);
+        const start = Date.now();
+        let durationMs: number;
+        try {
+            await this.#withTimeout(name, 'init', signal => instance.enable(signal));
+            durationMs = Date.now() - start;
+        } catch (err) {
+            durationMs = Date.now() - start;
+            await instance.setStatus('failed', err);
+            this.#log.warn(`Plugin ${name} could not be restarted`, err);
+            await this.#cleanUpFailedPlugin(name, instance);
+        }
+        await instance.setInitDuration(durationMs);
+        this.#initFinished(name, instance, durationMs);
     }
 
     /**
@@ -117,6 +593,8 @@ export default class PluginHandler {
     setDatabaseForPlugin(name: string, objectsDb: ObjectsInRedisClient, statesDb: StatesInRedisClient): void {
         const plugin = this.#plugins[name];
         if (plugin?.instance) {
+            plugin.objectsDb = objectsDb;
+            plugin.statesDb = statesDb;
             plugin.instance.setDatabase(objectsDb, statesDb);
         }
     }
@@ -128,6 +606,8 @@ export default class PluginHandler {
      * @param statesDb states DB instance
      */
     setDatabaseForPlugins(objectsDb: ObjectsInRedisClient, statesDb: StatesInRedisClient): void {
+        this.#objectsDb = objectsDb;
+        this.#statesDb = statesDb;
         Object.keys(this.#plugins).forEach(plugin => this.setDatabaseForPlugin(plugin, objectsDb, statesDb));
     }
 
@@ -142,42 +622,200 @@ export default class PluginHandler {
         if (!instance) {
             throw new Error('Please instantiate plugin first!');
         }
+        this.#parentConfig = parentConfig;
 
+        const config = this.#plugins[name].config;
+        const start = Date.now();
+        let durationMs: number;
+        let failed = false;
         try {
-            await instance.initPlugin(this.#plugins[name].config, parentConfig);
+            await this.#withTimeout(name, 'init', signal => instance.initPlugin(config, parentConfig, signal));
+            durationMs = Date.now() - start;
         } catch (err) {
-            this.#log.warn(
-                `Plugin ${name} destroyed because not initialized correctly: ${err instanceof Error ? err.message : String(err)}`,
-            );
-            if (err instanceof Error && err.stack) {
-                this.#log.debug(err.stack);
+            durationMs = Date.now() - start;
+            failed = true;
+            await instance.setStatus('failed', err);
+            this.#log.warn(`Plugin ${name} destroyed because not initialized correctly`, err);
+            await this.#cleanUpFailedPlugin(name, instance);
+        }
+        if (instance.pluginConfig) {
+            // the handler returns the configuration the plugin works with
+            this.#plugins[name].config = instance.pluginConfig;
+        }
+        // a disabled plugin was not initialized at all
+        if (instance.status !== 'instantiated') {
+            await instance.setInitDuration(durationMs);
+            const restarting = this.#initFinished(name, instance, durationMs);
+            if (failed && !restarting) {
+                delete this.#plugins[name].instance;
+                return;
             }
-            try {
-                await instance.destroy();
-            } catch (err) {
-                this.#log.warn(`Cannot destroy plugin ${name}: ${err instanceof Error ? err.message : String(err)}`);
-                if (err instanceof Error && err.stack) {
-                    this.#log.warn(err.stack);
+        }
+
+        if (this.#plugins[name].watchesControlStates) {
+            return;
+        }
+        try {
+            await this.#watchControlStates(instance, true);
+            this.#plugins[name].watchesControlStates = true;
+        } catch (err) {
+            this.#log.warn(`Plugin ${name} cannot be controlled at runtime`, err);
+        }
+    }
+
+    /**
+     * Subscribe or unsubscribe the enabled and the logLevel state of a plugin. They are counted like the subscriptions
+     * of the plugins, as a plugin may subscribe them itself.
+     *
+     * @param instance the plugin instance
+     * @param watch true to subscribe the states, false to unsubscribe them
+     */
+    async #watchControlStates(instance: PluginBase<any>, watch: boolean): Promise<void> {
+        const statesDb = instance.statesDb;
+        if (!statesDb) {
+            return;
+        }
+        for (const id of [`${instance.pluginNamespace}.enabled`, `${instance.pluginNamespace}.logLevel`]) {
+            if (!watch) {
+                if (this.#subscriptions.release(statesDb, id)) {
+                    await statesDb.unsubscribe(id);
+                }
+            } else if (this.#subscriptions.acquire(statesDb, id)) {
+                try {
+                    await statesDb.subscribe(id);
+                } catch (err) {
+                    this.#subscriptions.release(statesDb, id);
+                    throw err;
                 }
             }
-            delete this.#plugins[name].instance;
         }
     }
 
     /**
      * Initialize all Plugins that are registered
      *
+     * The plugins are initialized after the plugins they depend on. A plugin is skipped if one of its required
+     * dependencies is not active or if its required dependencies form a cycle.
+     * Up to `concurrency` plugins are initialized at the same time, by default one after the other. A plugin that waits
+     * for a service in `init()` does not count, so the plugin providing the service can be initialized meanwhile. If all
+     * plugins that are initialized wait for services and no other plugin can be initialized, their waits fail.
+     *
      * @param parentConfig io-package of the parent module that uses the plugins (adapter/controller)
+     * @param options options for this initialization
+     * @param options.concurrency maximal number of plugins to initialize at the same time, overrides `initConcurrency` of the settings
      */
-    async initPlugins(parentConfig: IoPackageFile): Promise<void> {
-        for (const [pluginName, plugin] of Object.entries(this.#plugins)) {
-            if (!plugin.instance) {
+    async initPlugins(parentConfig: IoPackageFile, options: { concurrency?: number } = {}): Promise<void> {
+        const dependencies = this.#getDependencies();
+        const cycles = findDependencyCycles(dependencies);
+        const order = sortByDependencies(dependencies);
+        const concurrency = Math.max(1, options.concurrency ?? this.#settings.initConcurrency ?? 1);
+
+        const pending = new Set(order);
+        const finished = new Set<string>();
+        const running = new Map<string, Promise<void>>();
+        const waitingForService = (): string[] =>
+            [...running.keys()].filter(pluginName => {
+                const namespace = this.#plugins[pluginName]?.instance?.pluginNamespace;
+                return !!namespace && this.#services.isWaiting(namespace);
+            });
+        while (pending.size || running.size) {
+            for (const pluginName of pending) {
+                if (running.size - waitingForService().length >= concurrency) {
+                    break;
+                }
+                // only the dependencies before the plugin are waited for, the others would close a cycle
+                const waitsFor = [...dependencies[pluginName].required, ...dependencies[pluginName].optional].filter(
+                    dependency =>
+                        order.indexOf(dependency) !== -1 && order.indexOf(dependency) < order.indexOf(pluginName),
+                );
+                if (waitsFor.some(dependency => !finished.has(dependency))) {
+                    continue;
+                }
+
+                pending.delete(pluginName);
+                running.set(
+                    pluginName,
+                    this.#initDependentPlugin(pluginName, parentConfig, dependencies[pluginName], cycles[pluginName])
+                        .catch(err => this.#log.warn(`Plugin ${pluginName} could not be initialized`, err))
+                        .finally(() => {
+                            running.delete(pluginName);
+                            finished.add(pluginName);
+                        }),
+                );
+            }
+            if (!running.size) {
                 continue;
             }
-            await this.initPlugin(pluginName, parentConfig);
+            const waiting = waitingForService();
+            if (waiting.length === running.size) {
+                // nothing else can be initialized, so nobody will provide the services
+                for (const pluginName of waiting) {
+                    this.#services.rejectWaiting(this.#plugins[pluginName].instance!.pluginNamespace);
+                }
+            }
+            await Promise.race([...running.values(), this.#services.nextWait()]);
         }
     }
 
+    /**
+     * Initialize a plugin as part of `initPlugins()`, if its dependencies allow it
+     *
+     * @param name name of the plugin
+     * @param parentConfig io-package of the parent module that uses the plugins (adapter/controller)
+     * @param dependencies the dependencies of the plugin
+     * @param cycle the dependency cycle the plugin is part of
+     */
+    async #initDependentPlugin(
+        name: string,
+        parentConfig: IoPackageFile,
+        dependencies: PluginDependencies,
+        cycle: string[] | undefined,
+    ): Promise<void> {
+        const plugin = this.#plugins[name];
+        if (!plugin.instance) {
+            return;
+        }
+        const skipReason = this.#getSkipReason(dependencies, cycle);
+        if (skipReason) {
+            this.#log.warn(`Plugin ${name} is not initialized, because ${skipReason}`);
+            plugin.skipReason = skipReason;
+            return;
+        }
+        delete plugin.skipReason;
+        await this.initPlugin(name, parentConfig);
+    }
+
+    /** Get the dependencies of all registered plugins out of their manifests */
+    #getDependencies(): Record<string, PluginDependencies> {
+        const dependencies: Record<string, PluginDependencies> = {};
+        for (const [name, plugin] of Object.entries(this.#plugins)) {
+            dependencies[name] = getPluginDependencies(getPluginManifest(plugin.source?.pluginPackage?.packageJson));
+        }
+        return dependencies;
+    }
+
+    /**
+     * Check if a plugin can be initialized with the current state of its dependencies
+     *
+     * @param dependencies the dependencies of the plugin
+     * @param cycle the dependency cycle the plugin is part of
+     * @returns why the plugin cannot be initialized, or null if it can
+     */
+    #getSkipReason(dependencies: PluginDependencies, cycle: string[] | undefined): string | null {
+        if (cycle) {
+            return `of the circular dependency ${cycle.join(' -> ')}`;
+        }
+        for (const dependency of dependencies.required) {
+            if (!this.pluginExists(dependency)) {
+                return `the required plugin ${dependency} is not configured`;
+            }
+            if (!this.isPluginActive(dependency)) {
+                return `the required plugin ${dependency} is not active`;
+            }
+        }
+        return null;
+    }
+
     /**
      * Destroy one plugin instance
      *
@@ -187,21 +825,32 @@ export default class PluginHandler {
     async destroy(name: string, force?: boolean): Promise<boolean> {
         const instance = this.#plugins[name]?.instance;
         if (instance) {
-            let destroyed = false;
-            try {
-                destroyed = await instance.destroy();
-            } catch (err: unknown) {
-                this.#log.warn(`Plugin ${name} could not be destroyed: ${(err as Error).message}`);
-                if (err instanceof Error && err.stack) {
-                    this.#log.warn(err.stack);
-                }
-            }
+            this.#cancelRestart(name);
+            const wasActive = instance.isActive;
+            const { destroyed, durationMs } = await this.#destroyInstance(name, instance);
             if (destroyed || force) {
                 this.#log.debug(`Plugin ${name} destroyed`);
                 if (!force) {
                     await instance.setActive(false);
                 }
+                await instance.releaseResources();
+                // a plugin that never ran keeps its status
+                if (instance.status !== 'instantiated' && instance.status !== 'destroyed') {
+                    await instance.setStatus('destroyed');
+                }
+                if (this.#plugins[name].watchesControlStates) {
+                    this.#plugins[name].watchesControlStates = false;
+                    try {
+                        await this.#watchControlStates(instance, false);
+                    } catch {
+                        // ignore, the plugin is gone anyway
+                    }
+                }
                 delete this.#plugins[name].instance;
+                if (wasActive) {
+                    this.#emit('deactivated', { name });
+                }
+                this.#emit('destroyed', { name, durationMs });
                 return true;
             }
             this.#log.warn(`Plugin ${name} could not be destroyed`);
@@ -210,44 +859,422 @@ export default class PluginHandler {
         return true;
     }
 
-    /** Destroy all plugin instances */
+    /**
+     * Call `destroy()` of a plugin and report a failure
+     *
+     * @param name name of the plugin
+     * @param instance the plugin instance
+     * @returns if the plugin was destroyed and how long it took
+     */
+    async #destroyInstance(
+        name: string,
+        instance: PluginBase<any>,
+    ): Promise<{ destroyed: boolean; durationMs: number }> {
+        const start = Date.now();
+        let destroyed = false;
+        let error: Error | undefined;
+        try {
+            destroyed = await this.#withTimeout(name, 'destroy', signal => instance.destroy(signal));
+        } catch (err: unknown) {
+            error = err instanceof Error ? err : new Error(String(err));
+            this.#log.warn(`Plugin ${name} could not be destroyed`, error);
+        }
+
+        const durationMs = Date.now() - start;
+        if (!destroyed) {
+            error ??= new Error(`Plugin ${name} could not be destroyed`);
+            this.#reportError(name, 'destroy', error);
+            this.#emit('destroyFailed', { name, durationMs, error });
+        }
+        return { destroyed, durationMs };
+    }
+
+    /** Destroy all plugin instances, the plugins are destroyed before the plugins they depend on */
     async destroyAll(): Promise<void> {
-        const names = Object.keys(this.#plugins);
+        const names = sortByDependencies(this.#getDependencies()).reverse();
         for (const pluginName of names) {
             try {
                 await this.destroy(pluginName, true);
             } catch (err) {
-                this.#log.warn(`Plugin "${pluginName}" could not be destroyed: ${(err as Error).message}`);
+                this.#log.warn(`Plugin ${pluginName} could not be destroyed`, err);
+            }
+        }
+    }
+
+    /**
+     * Load the code of a plugin again and replace the running instance, without restarting the parent process
+     *
+     * The instance is destroyed, the modules of the plugin package are removed from the require cache and the plugin
+     * is resolved, instantiated and initialized again with the databases and the io-package of the parent it had before.
+     * Plugins that are loaded via `import()` get their entry module evaluated again, modules imported by it stay cached.
+     * If the code cannot be loaded, the plugin stays registered without instance, so it can be reloaded again.
+     *
+     * @param name name of the plugin to reload
+     * @returns true if the plugin could be instantiated again
+     */
+    async reloadPlugin(name: string): Promise<boolean> {
+        const plugin = this.#plugins[name];
+        if (!plugin?.source) {
+            this.#log.warn(`Plugin ${name} cannot be reloaded, because it was never loaded`);
+            return false;
+        }
+
+        this.#log.info(`Reload plugin ${name}`);
+        if (plugin.instance) {
+            await this.destroy(name, true);
+        }
+
+        const { config, source, objectsDb, statesDb } = plugin;
+        if (source.pluginPackage) {
+            this.#clearRequireCache(source.pluginPackage.dir);
+        }
+        this.#reloads[name] = (this.#reloads[name] || 0) + 1;
+        delete this.#plugins[name];
+
+        if (source.loader === 'import') {
+            await this.instantiatePluginAsync(name, config, source.resolveDirs);
+        } else {
+            this.instantiatePlugin(name, config, source.resolveDirs);
+        }
+        if (!this.isPluginInstantiated(name)) {
+            // keep what is needed to reload the plugin again, e.g. after a syntax error was fixed
+            this.#plugins[name] = { ...this.#plugins[name], config, source, objectsDb, statesDb };
+            return false;
+        }
+
+        if (objectsDb && statesDb) {
+            this.setDatabaseForPlugin(name, objectsDb, statesDb);
+        }
+        if (this.#parentConfig) {
+            await this.initPlugin(name, this.#parentConfig);
+        }
+        return this.isPluginInstantiated(name);
+    }
+
+    /**
+     * Remove all objects and states below the namespace of a plugin, e.g. after the plugin was removed from the
+     * configuration. An instance of the plugin is destroyed and removed from the handler first.
+     *
+     * Plugins without instance are purged with the databases set via `setDatabaseForPlugins()`.
+     *
+     * @param name name of the plugin
+     * @param options options of the purge
+     * @param options.dryRun only determine what would be removed, the plugin and its objects and states are kept
+     * @returns what was removed
+     */
+    async purgePlugin(name: string, options: { dryRun?: boolean } = {}): Promise<PluginPurgeResult> {
+        if (!/^[^.*\s]+$/.test(name)) {
+            throw new Error(`Invalid plugin name "${name}"`);
+        }
+        const plugin = this.#plugins[name];
+        const objectsDb = plugin?.objectsDb ?? this.#objectsDb;
+        const statesDb = plugin?.statesDb ?? this.#statesDb;
+        if (!objectsDb || !statesDb) {
+            throw new Error(`Plugin ${name} cannot be purged, because no databases were set`);
+        }
+
+        const dryRun = !!options.dryRun;
+        if (!dryRun) {
+            // the instance writes its states while it is destroyed, so it has to be gone before they are collected
+            if (plugin?.instance) {
+                await this.destroy(name, true);
             }
+            this.#cancelRestart(name);
+            delete this.#plugins[name];
+            this.#configured.delete(name);
+        }
+
+        const namespace = `${this.#settings.namespace}.plugins.${name}`;
+        const objects = (await objectsDb.getKeysAsync(`${namespace}.*`)) ?? [];
+        if (await objectsDb.getObjectAsync(namespace)) {
+            objects.push(namespace);
+        }
+        objects.sort();
+        const states = ((await statesDb.getKeys(`${namespace}.*`)) ?? []).sort();
+
+        if (dryRun) {
+            this.#log.info(`Purging plugin ${name} would remove ${objects.length} objects and ${states.length} states`);
+            return { name, namespace, objects, states, dryRun };
+        }
+
+        // children first, so no object is left without its parent if the purge is interrupted
+        for (const id of [...objects].reverse()) {
+            await objectsDb.delObjectAsync(id);
+        }
+        for (const id of states) {
+            await statesDb.delState(id);
+        }
+        this.#log.info(`Plugin ${name} purged, ${objects.length} objects and ${states.length} states removed`);
+        return { name, namespace, objects, states, dryRun };
+    }
+
+    /**
+     * Find the plugin namespaces in the databases that belong to no plugin added to the handler, e.g. the leftovers of
+     * plugins that were removed from the configuration. They can be removed with `purgePlugin()`.
+     *
+     * @returns the names of the plugins the namespaces belong to
+     */
+    async getOrphanedPlugins(): Promise<string[]> {
+        if (!this.#objectsDb || !this.#statesDb) {
+            throw new Error('Orphaned plugins cannot be detected, because no databases were set');
+        }
+        const prefix = `${this.#settings.namespace}.plugins.`;
+        const ids = [
+            ...((await this.#objectsDb.getKeysAsync(`${prefix}*`)) ?? []),
+            ...((await this.#statesDb.getKeys(`${prefix}*`)) ?? []),
+        ];
+        const names = new Set(ids.map(id => id.slice(prefix.length).split('.')[0]));
+        return [...names].filter(name => name && !this.#configured.has(name)).sort();
+    }
+
+    /**
+     * Remove all modules of a package from the require cache
+     *
+     * @param packageDir directory of the package
+     */
+    #clearRequireCache(packageDir: string): void {
+        const dirs = [packageDir];
+        try {
+            // linked packages are cached with their real path
+            dirs.push(realpathSync(packageDir));
+        } catch {
+            // ignore
+        }
+
+        for (const file of Object.keys(require.cache)) {
+            if (dirs.some(dir => file.startsWith(`${dir}${sep}`))) {
+                delete require.cache[file];
+            }
+        }
+    }
+
+    /**
+     * Process a state change of the parent, which has to forward all state changes it receives to the handler.
+     *
+     * The change is passed to every plugin that subscribed a matching pattern via `subscribeStates()`.
+     * A not acknowledged change of the `enabled` state of a plugin initializes or destroys the plugin,
+     * a not acknowledged change of its `logLevel` state changes the level the plugin logs with.
+     *
+     * @param id id of the changed state
+     * @param state the new state or null if it was deleted
+     */
+    async handleStateChange(id: string, state: ioBroker.State | null | undefined): Promise<void> {
+        for (const [name, plugin] of Object.entries(this.#plugins)) {
+            const instance = plugin.instance;
+            if (instance?.isStateSubscribed(id)) {
+                await this.#dispatchChange(name, id, () => instance.onStateChange(id, state));
+            }
+        }
+
+        if (!state || state.ack) {
+            return;
+        }
+
+        for (const [name, plugin] of Object.entries(this.#plugins)) {
+            if (plugin.instance && id === `${plugin.instance.pluginNamespace}.enabled`) {
+                plugin.enabledChange = (plugin.enabledChange ?? Promise.resolve()).then(() =>
+                    this.#setPluginEnabled(name, !!state.val),
+                );
+                await plugin.enabledChange;
+                return;
+            }
+            if (plugin.instance && id === `${plugin.instance.pluginNamespace}.logLevel`) {
+                this.#log.info(`Log level of plugin ${name} changed to ${JSON.stringify(state.val)}`);
+                await plugin.instance.setLogLevel(state.val);
+                return;
+            }
+        }
+    }
+
+    /**
+     * Process an object change of the parent, which has to forward all object changes it receives to the handler.
+     *
+     * The change is passed to every plugin that subscribed a matching pattern via `subscribeObjects()`.
+     *
+     * @param id id of the changed object
+     * @param obj the new object or null if it was deleted
+     */
+    async handleObjectChange(id: string, obj: ioBroker.Object | null | undefined): Promise<void> {
+        for (const [name, plugin] of Object.entries(this.#plugins)) {
+            const instance = plugin.instance;
+            if (instance?.isObjectSubscribed(id)) {
+                await this.#dispatchChange(name, id, () => instance.onObjectChange(id, obj));
+            }
+        }
+    }
+
+    /**
+     * Pass a change to a plugin, an error of the plugin does not affect the other plugins
+     *
+     * @param name name of the plugin
+     * @param id id of the changed state or object
+     * @param handler calls the change handler of the plugin
+     */
+    async #dispatchChange(name: string, id: string, handler: () => void | Promise<void>): Promise<void> {
+        try {
+            await handler();
+        } catch (err) {
+            this.#log.warn(`Plugin ${name} could not process the change of ${id}`, err);
+            this.#reportError(name, 'change', err, { id });
+        }
+    }
+
+    /**
+     * Initialize or destroy a plugin because its enabled state was changed, and acknowledge the new value
+     *
+     * @param name name of the plugin
+     * @param enabled the requested value of the enabled state
+     */
+    async #setPluginEnabled(name: string, enabled: boolean): Promise<void> {
+        const instance = this.#plugins[name]?.instance;
+        if (!instance) {
+            return;
+        }
+        // the user takes over
+        this.#cancelRestart(name);
+
+        try {
+            if (enabled && !instance.isActive) {
+                this.#log.info(`Plugin ${name} enabled`);
+                const start = Date.now();
+                try {
+                    // acknowledges the state with the result of the initialization
+                    await this.#withTimeout(name, 'init', signal => instance.enable(signal));
+                } catch (err) {
+                    await instance.setStatus('failed', err);
+                    throw err;
+                } finally {
+                    await instance.setInitDuration(Date.now() - start);
+                    this.#initFinished(name, instance, Date.now() - start);
+                }
+            } else if (!enabled && instance.isActive) {
+                const { destroyed, durationMs } = await this.#destroyInstance(name, instance);
+                if (destroyed) {
+                    await instance.releaseResources();
+                    this.#log.info(`Plugin ${name} disabled`);
+                } else {
+                    this.#log.warn(`Plugin ${name} could not be disabled`);
+                }
+                await instance.setActive(!destroyed);
+                if (destroyed) {
+                    this.#emit('deactivated', { name });
+                    this.#emit('destroyed', { name, durationMs });
+                }
+            } else {
+                await instance.setActive(instance.isActive);
+            }
+        } catch (err) {
+            this.#log.warn(`Plugin ${name} could not be ${enabled ? 'enabled' : 'disabled'}`, err);
+        }
+    }
+
+    /**
+     * Run a lifecycle phase of a plugin and give up on it if it takes longer than the configured timeout
+     *
+     * The timeout of the plugin configuration wins over the timeout of the handler settings.
+     *
+     * @param name name of the plugin
+     * @param phase the lifecycle phase
+     * @param action the phase to run, the signal is aborted when the timeout expires
+     * @returns the result of the action
+     */
+    async #withTimeout<T>(
+        name: string,
+        phase: keyof PluginTimeouts,
+        action: (signal: AbortSignal) => Promise<T>,
+    ): Promise<T> {
+        const controller = new AbortController();
+        const timeout = this.#plugins[name]?.config?.timeouts?.[phase] ?? this.#settings.timeouts?.[phase];
+        if (!timeout) {
+            return action(controller.signal);
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        const expired = new Promise<never>((_resolve, reject) => {
+            timer = setTimeout(() => {
+                const err = new Error(`Plugin ${name} did not finish ${phase} within ${timeout}ms`);
+                controller.abort(err);
+                reject(err);
+            }, timeout);
+        });
+
+        try {
+            return await Promise.race([action(controller.signal), expired]);
+        } finally {
+            clearTimeout(timer);
         }
     }
 
     /**
      * Return plugin instance
      *
+     * @template T class of the plugin, if the caller knows it
      * @param name name of the plugin to return
      * @returns plugin instance or null if not existent or not isActive
      */
-    getPluginInstance(name: string): PluginInstance {
+    getPluginInstance<T extends PluginBase<any> = PluginBase>(name: string): T | null {
         const plugin = this.#plugins[name];
         if (!plugin?.instance) {
             return null;
         }
-        return plugin.instance;
+        return plugin.instance as T;
+    }
+
+    /**
+     * Export the metrics of all plugins in the Prometheus text format, e.g. to serve them on a `/metrics` endpoint.
+     * Every metric is exported as `iobroker_plugin_<metric>` with the name of the plugin as label `plugin`.
+     *
+     * @returns the metrics, an empty string if no plugin has metrics
+     */
+    getPrometheusMetrics(): string {
+        const metrics: Record<string, PluginMetricSnapshot[]> = {};
+        for (const [name, plugin] of Object.entries(this.#plugins)) {
+            if (plugin.instance) {
+                metrics[name] = plugin.instance.getMetricsSnapshot();
+            }
+        }
+        const { text, conflicts } = formatPrometheus(metrics);
+        for (const conflict of conflicts) {
+            this.#log.debug(
+                `Metric ${conflict} is not exported, because another plugin has a metric of another type with the same name`,
+            );
+        }
+        return text;
     }
 
     /**
      * Return plugin configuration
      *
+     * @template T type of the plugin configuration, if the caller knows it
      * @param name name of the plugin to return
      * @returns plugin configuration or null if not existent or not isActive
      */
-    getPluginConfig(name: string): Record<string, any> | null {
+    getPluginConfig<T extends Record<string, any> = Record<string, any>>(name: string): PluginConfig<T> | null {
         const plugin = this.#plugins[name];
         if (!plugin?.config) {
             return null;
         }
-        return plugin.config;
+        return plugin.config as PluginConfig<T>;
+    }
+
+    /**
+     * Return why a plugin was refused because of its manifest
+     *
+     * @param name name of the plugin to check
+     * @returns the incompatibility or null if the plugin was not refused
+     */
+    getPluginIncompatibility(name: string): PluginIncompatibility | null {
+        return this.#plugins[name]?.incompatibility ?? null;
+    }
+
+    /**
+     * Return why a plugin was not initialized because of its dependencies
+     *
+     * @param name name of the plugin to check
+     * @returns the reason or null if the plugin was not skipped
+     */
+    getPluginSkipReason(name: string): string | null {
+        return this.#plugins[name]?.skipReason ?? null;
     }
 
     /**
@@ -0,0 +1,420 @@
+import type {
+    PluginCounter,
+    PluginGauge,
+    PluginHistogram,
+    PluginMetricOptions,
+    PluginMetricSnapshot,
+    PluginMetricType,
+} from '../types';
+import type NamespaceLogger from './NamespaceLogger';
+
+/** Upper bounds of the histogram buckets if a histogram has no buckets of its own, suitable for durations in ms */
+const DEFAULT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/** Names are used as part of state ids and as Prometheus metric names, so only these characters are allowed */
+const METRIC_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** States of a histogram below `<pluginNamespace>.metrics.<name>` */
+const HISTOGRAM_STATES = ['count', 'sum', 'min', 'max', 'avg'] as const;
+
+/** The part of the plugin the metrics are written with */
+export interface MetricsTarget {
+    pluginNamespace: string;
+    log: NamespaceLogger;
+    extendObject(id: string, obj: object): Promise<unknown>;
+    setState(id: string, state: ioBroker.SettableState): Promise<unknown>;
+}
+
+/** A metric of any type */
+abstract class Metric {
+    readonly name: string;
+    readonly options: PluginMetricOptions;
+    /** Set when the value changed since the last flush */
+    dirty = false;
+    /** Called when the value changed */
+    readonly #changed: () => void;
+
+    /**
+     * @param name name of the metric
+     * @param options description, unit and buckets of the metric
+     * @param changed called when the value changed
+     */
+    constructor(name: string, options: PluginMetricOptions, changed: () => void) {
+        this.name = name;
+        this.options = options;
+        this.#changed = changed;
+    }
+
+    abstract get type(): PluginMetricType;
+
+    /** The current values of the metric */
+    abstract snapshot(): PluginMetricSnapshot;
+
+    /** Values of the states below `<pluginNamespace>.metrics`, relative to it */
+    abstract stateValues(): Record<string, number | null>;
+
+    /** The fields of the snapshot that all metrics have */
+    protected describe(): PluginMetricSnapshot {
+        return { name: this.name, type: this.type, description: this.options.description, unit: this.options.unit };
+    }
+
+    protected markChanged(): void {
+        this.dirty = true;
+        this.#changed();
+    }
+}
+
+/** A value that only increases, e.g. the number of uploads */
+class Counter extends Metric implements PluginCounter {
+    value = 0;
+
+    get type(): PluginMetricType {
+        return 'counter';
+    }
+
+    inc(value = 1): void {
+        if (value < 0) {
+            throw new Error(`Counter ${this.name} cannot be decreased`);
+        }
+        this.value += value;
+        this.markChanged();
+    }
+
+    snapshot(): PluginMetricSnapshot {
+        return { ...this.describe(), value: this.value };
+    }
+
+    stateValues(): Record<string, number | null> {
+        return { [this.name]: this.value };
+    }
+}
+
+/** A value that goes up and down, e.g. the length of a queue */
+class Gauge extends Metric implements PluginGauge {
+    value = 0;
+
+    get type(): PluginMetricType {
+        return 'gauge';
+    }
+
+    set(value: number): void {
+        this.value = value;
+        this.markChanged();
+    }
+
+    inc(value = 1): void {
+        this.set(this.value + value);
+    }
+
+    dec(value = 1): void {
+        this.set(this.value - value);
+    }
+
+    snapshot(): PluginMetricSnapshot {
+        return { ...this.describe(), value: this.value };
+    }
+
+    stateValues(): Record<string, number | null> {
+        return { [this.name]: this.value };
+    }
+}
+
+/** The distribution of observed values, e.g. the latency of requests */
+class Histogram extends Metric implements PluginHistogram {
+    count = 0;
+    sum = 0;
+    min: number | null = null;
+    max: number | null = null;
+    readonly #buckets: number[];
+    /** Number of observations per bucket, not cumulative */
+    readonly #bucketCounts: number[];
+
+    constructor(name: string, options: PluginMetricOptions, changed: () => void) {
+        super(name, options, changed);
+        this.#buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+        this.#bucketCounts = this.#buckets.map(() => 0);
+    }
+
+    get type(): PluginMetricType {
+        return 'histogram';
+    }
+
+    observe(value: number): void {
+        this.count++;
+        this.sum += value;
+        this.min = this.min === null ? value : Math.min(this.min, value);
+        this.max = this.max === null ? value : Math.max(this.max, value);
+        const bucket = this.#buckets.findIndex(bound => value <= bound);
+        if (bucket !== -1) {
+            this.#bucketCounts[bucket]++;
+        }
+        this.markChanged();
+    }
+
+    snapshot(): PluginMetricSnapshot {
+        let cumulative = 0;
+        return {
+            ...this.describe(),
+            count: this.count,
+            sum: this.sum,
+            buckets: this.#buckets.map((le, i) => ({ le, count: (cumulative += this.#bucketCounts[i]) })),
+        };
+    }
+
+    stateValues(): Record<string, number | null> {
+        return {
+            [`${this.name}.count`]: this.count,
+            [`${this.name}.sum`]: this.sum,
+            [`${this.name}.min`]: this.min,
+            [`${this.name}.max`]: this.max,
+            [`${this.name}.avg`]: this.count ? this.sum / this.count : null,
+        };
+    }
+}
+
+/**
+ * Metrics of a plugin. The values are aggregated in memory and written periodically to states below
+ * `<pluginNamespace>.metrics`, the objects of the states are created when a metric is written the first time.
+ */
+export default class PluginMetrics {
+    readonly #target: MetricsTarget;
+    /** Milliseconds between two flushes, 0 writes the metrics only on `flush()` */
+    readonly #interval: number;
+    #metrics = new Map<string, Metric>();
+    /** Metrics whose objects exist */
+    #created = new Set<string>();
+    #flushTimer?: NodeJS.Timeout;
+    /** The running flush, flushes are not executed in parallel */
+    #flushing: Promise<void> = Promise.resolve();
+
+    /**
+     * @param target the plugin the metrics belong to
+     * @param interval milliseconds between two flushes
+     */
+    constructor(target: MetricsTarget, interval = 10_000) {
+        this.#target = target;
+        this.#interval = interval;
+    }
+
+    /**
+     * Get or create a counter, a value that only increases
+     *
+     * @param name name of the metric, letters, digits and `_`
+     * @param options description and unit of the metric
+     */
+    counter(name: string, options: PluginMetricOptions = {}): PluginCounter {
+        return this.#get(name, 'counter', options, () => new Counter(name, options, () => this.#scheduleFlush()));
+    }
+
+    /**
+     * Get or create a gauge, a value that can go up and down
+     *
+     * @param name name of the metric, letters, digits and `_`
+     * @param options description and unit of the metric
+     */
+    gauge(name: string, options: PluginMetricOptions = {}): PluginGauge {
+        return this.#get(name, 'gauge', options, () => new Gauge(name, options, () => this.#scheduleFlush()));
+    }
+
+    /**
+     * Get or create a histogram, which aggregates observed values
+     *
+     * @param name name of the metric, letters, digits and `_`
+     * @param options description, unit and the upper bounds of the buckets for the Prometheus export
+     */
+    histogram(name: string, options: PluginMetricOptions = {}): PluginHistogram {
+        return this.#get(name, 'histogram', options, () => new Histogram(name, options, () => this.#scheduleFlush()));
+    }
+
+    /** The current values of all metrics */
+    snapshot(): PluginMetricSnapshot[] {
+        return [...this.#metrics.values()].map(metric => metric.snapshot());
+    }
+
+    /** Write the metrics that changed since the last flush to their states */
+    flush(): Promise<void> {
+        if (this.#flushTimer) {
+            clearTimeout(this.#flushTimer);
+            this.#flushTimer = undefined;
+        }
+        this.#flushing = this.#flushing.then(() => this.#write());
+        return this.#flushing;
+    }
+
+    /**
+     * Get a metric, it is created if it does not exist
+     *
+     * @param name name of the metric
+     * @param type the expected type
+     * @param options options of a new metric
+     * @param create creates the metric
+     */
+    #get<T extends Metric>(name: string, type: PluginMetricType, options: PluginMetricOptions, create: () => T): T {
+        const existing = this.#metrics.get(name);
+        if (existing) {
+            if (existing.type !== type) {
+                throw new Error(`Metric ${name} is a ${existing.type}, not a ${type}`);
+            }
+            return existing as T;
+        }
+        if (!METRIC_NAME.test(name)) {
+            throw new Error(`Invalid metric name "${name}", only letters, digits and "_" are allowed`);
+        }
+        if (options.buckets?.some(bound => typeof bound !== 'number' || !isFinite(bound))) {
+            throw new Error(`Invalid buckets of metric ${name}`);
+        }
+        const metric = create();
+        this.#metrics.set(name, metric);
+        return metric;
+    }
+
+    /** Flush after the interval, the timer is only running while metrics changed */
+    #scheduleFlush(): void {
+        if (this.#flushTimer || this.#interval <= 0) {
+            return;
+        }
+        this.#flushTimer = setTimeout(() => {
+            this.#flushTimer = undefined;
+            void this.flush();
+        }, this.#interval);
+        // the metrics must not keep the parent process alive
+        this.#flushTimer.unref();
+    }
+
+    /** Write the changed metrics, metrics that cannot be written are written again with the next flush */
+    async #write(): Promise<void> {
+        const namespace = `${this.#target.pluginNamespace}.metrics`;
+        for (const metric of this.#metrics.values()) {
+            if (!metric.dirty) {
+                continue;
+            }
+            metric.dirty = false;
+            try {
+                await this.#createObjects(namespace, metric);
+                for (const [id, val] of Object.entries(metric.stateValues())) {
+                    await this.#target.setState(`${namespace}.${id}`, {
+                        val,
+                        ack: true,
+                        from: this.#target.pluginNamespace,
+                    });
+                }
+            } catch (err) {
+                metric.dirty = true;
+                this.#target.log.debug(`Cannot write metric ${metric.name}`, err);
+            }
+        }
+    }
+
+    /**
+     * Create the objects of a metric, if they were not created before
+     *
+     * @param namespace namespace of the metrics of the plugin
+     * @param metric the metric
+     */
+    async #createObjects(namespace: string, metric: Metric): Promise<void> {
+        if (this.#created.has(metric.name)) {
+            return;
+        }
+        if (!this.#created.size) {
+            await this.#target.extendObject(namespace, {
+                type: 'channel',
+                common: { name: 'Plugin metrics' },
+                native: {},
+            });
+        }
+
+        const common = {
+            type: 'number',
+            read: true,
+            write: false,
+            unit: metric.options.unit,
+            desc: metric.options.description,
+        };
+        if (metric.type === 'histogram') {
+            await this.#target.extendObject(`${namespace}.${metric.name}`, {
+                type: 'channel',
+                common: { name: `Metric ${metric.name}`, desc: metric.options.description },
+                native: {},
+            });
+            for (const state of HISTOGRAM_STATES) {
+                await this.#target.extendObject(`${namespace}.${metric.name}.${state}`, {
+                    type: 'state',
+                    common: {
+                        ...common,
+                        name: `Metric ${metric.name} - ${state}`,
+                        role: 'value',
+                        // the number of observations has no unit
+                        unit: state === 'count' ? undefined : metric.options.unit,
+                    },
+                    native: {},
+                });
+            }
+        } else {
+            await this.#target.extendObject(`${namespace}.${metric.name}`, {
+                type: 'state',
+                common: { ...common, name: `Metric ${metric.name}`, role: 'value' },
+                native: {},
+            });
+        }
+        this.#created.add(metric.name);
+    }
+}
+
+/**
+ * Escape a value of a Prometheus label
+ *
+ * @param value the value
+ */
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Render the metrics of plugins in the Prometheus text format. Every metric is exported as `iobroker_plugin_<name>`
+ * with the name of the plugin as label `plugin`.
+ *
+ * @param metrics the metrics per plugin name
+ * @returns the metrics and the metrics that were skipped, because a metric with the same name has another type
+ */
+export function formatPrometheus(metrics: Record<string, PluginMetricSnapshot[]>): {
+    text: string;
+    conflicts: string[];
+} {
+    const families = new Map<string, { type: PluginMetricType; help?: string; lines: string[] }>();
+    const conflicts: string[] = [];
+    for (const [plugin, snapshots] of Object.entries(metrics)) {
+        const label = `plugin="${escapeLabel(plugin)}"`;
+        for (const metric of snapshots) {
+            const name = `iobroker_plugin_${metric.name}`;
+            let family = families.get(name);
+            if (!family) {
+                family = { type: metric.type, help: metric.description, lines: [] };
+                families.set(name, family);
+            } else if (family.type !== metric.type) {
+                conflicts.push(`${plugin}.${metric.name}`);
+                continue;
+            }
+
+            if (metric.type === 'histogram') {
+                for (const bucket of metric.buckets ?? []) {
+                    family.lines.push(`${name}_bucket{${label},le="${bucket.le}"} ${bucket.count}`);
+                }
+                family.lines.push(`${name}_bucket{${label},le="+Inf"} ${metric.count}`);
+                family.lines.push(`${name}_sum{${label}} ${metric.sum}`);
+                family.lines.push(`${name}_count{${label}} ${metric.count}`);
+            } else {
+                family.lines.push(`${name}{${label}} ${metric.value}`);
+            }
+        }
+    }
+
+    const lines: string[] = [];
+    for (const [name, family] of families) {
+        if (family.help) {
+            lines.push(`# HELP ${name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+        }
+        lines.push(`# TYPE ${name} ${family.type}`);
+        lines.push(...family.lines);
+    }
+    return { text: lines.length ? `${lines.join('\n')}\n` : '', conflicts };
+}
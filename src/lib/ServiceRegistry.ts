@@ -0,0 +1,155 @@
+/** A service that is provided by an active plugin */
+interface ProvidedService {
+    /** Namespace of the plugin that provides the service */
+    provider: string;
+    service: unknown;
+}
+
+/** A consumer that waits for a service to be provided */
+interface WaitingConsumer {
+    /** Namespace of the waiting plugin, if known */
+    consumer?: string;
+    resolve: (service: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+/** Registry of the services the plugins of one handler provide to each other */
+export default class ServiceRegistry {
+    #services = new Map<string, ProvidedService>();
+    /** Consumers that wait for a service to be provided */
+    #waiting = new Map<string, WaitingConsumer[]>();
+    /** Called when a consumer starts to wait */
+    #onWait: (() => void)[] = [];
+
+    /**
+     * Return which plugin provides a service
+     *
+     * @param name name of the service
+     * @returns namespace of the providing plugin or undefined if nobody provides the service
+     */
+    getProvider(name: string): string | undefined {
+        return this.#services.get(name)?.provider;
+    }
+
+    /**
+     * Make a service available to the other plugins and to consumers that are waiting for it
+     *
+     * @param name name of the service
+     * @param provider namespace of the providing plugin
+     * @param service the implementation of the service
+     */
+    register(name: string, provider: string, service: unknown): void {
+        const existing = this.#services.get(name);
+        if (existing && existing.provider !== provider) {
+            throw new Error(`Service ${name} is already provided by ${existing.provider}`);
+        }
+        this.#services.set(name, { provider, service });
+
+        const waiting = this.#waiting.get(name) ?? [];
+        this.#waiting.delete(name);
+        for (const waiter of waiting) {
+            waiter.resolve(service);
+        }
+    }
+
+    /**
+     * Withdraw a service, consumers that ask for it afterward wait until it is provided again
+     *
+     * @param name name of the service
+     * @param provider namespace of the plugin that provided the service
+     */
+    unregister(name: string, provider: string): void {
+        if (this.#services.get(name)?.provider === provider) {
+            this.#services.delete(name);
+        }
+    }
+
+    /**
+     * Get a service, waiting until it is provided
+     *
+     * @param name name of the service
+     * @param signal stops waiting for the service when aborted
+     * @param consumer namespace of the waiting plugin, so the wait can be rejected via `rejectWaiting()`
+     * @returns the implementation of the service
+     */
+    async waitFor(name: string, signal?: AbortSignal, consumer?: string): Promise<unknown> {
+        const provided = this.#services.get(name);
+        if (provided) {
+            return provided.service;
+        }
+        signal?.throwIfAborted();
+
+        return new Promise((resolve, reject) => {
+            const waiter: WaitingConsumer = { consumer, resolve, reject };
+            this.#waiting.set(name, [...(this.#waiting.get(name) ?? []), waiter]);
+            if (signal) {
+                const onAbort = (): void => {
+                    this.#removeWaiter(name, waiter);
+                    reject(signal.reason as Error);
+                };
+                signal.addEventListener('abort', onAbort, { once: true });
+                waiter.resolve = service => {
+                    signal.removeEventListener('abort', onAbort);
+                    resolve(service);
+                };
+                waiter.reject = error => {
+                    signal.removeEventListener('abort', onAbort);
+                    reject(error);
+                };
+            }
+
+            const onWait = this.#onWait;
+            this.#onWait = [];
+            for (const listener of onWait) {
+                listener();
+            }
+        });
+    }
+
+    /**
+     * Check if a plugin waits for a service
+     *
+     * @param consumer namespace of the plugin
+     */
+    isWaiting(consumer: string): boolean {
+        return [...this.#waiting.values()].some(waiting => waiting.some(waiter => waiter.consumer === consumer));
+    }
+
+    /**
+     * Wait until a consumer starts to wait for a service
+     *
+     * @returns resolved with the next call of `waitFor()` that has to wait
+     */
+    nextWait(): Promise<void> {
+        return new Promise(resolve => this.#onWait.push(resolve));
+    }
+
+    /**
+     * Stop the waits of a plugin, e.g. because no other plugin can provide the services anymore
+     *
+     * @param consumer namespace of the plugin
+     */
+    rejectWaiting(consumer: string): void {
+        for (const [name, waiting] of [...this.#waiting]) {
+            for (const waiter of waiting.filter(entry => entry.consumer === consumer)) {
+                this.#removeWaiter(name, waiter);
+                waiter.reject(new Error(`Service ${name} is not provided by any plugin`));
+            }
+        }
+    }
+
+    /**
+     * Remove a consumer that stopped waiting
+     *
+     * @param name name of the service
+     * @param waiter the consumer
+     */
+    #removeWaiter(name: string, waiter: WaitingConsumer): void {
+        const waiting = this.#waiting.get(name)?.filter(entry => entry !== waiter);
+        if (waiting?.length) {
+            this.#waiting.set(name, waiting);
+        } else {
+            this.#waiting.delete(name);
+        }
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Counts the subscriptions of the plugins of one handler. The plugins share the database clients of their parent,
+ * so a pattern is only unsubscribed at a client when no plugin is subscribed to it anymore.
+ */
+export default class SubscriptionRegistry {
+    /** Number of subscriptions per pattern, per database client */
+    #counts = new WeakMap<object, Map<string, number>>();
+
+    /**
+     * Count a subscription of a pattern
+     *
+     * @param client the database client the pattern is subscribed at
+     * @param pattern id or pattern with `*` as wildcard
+     * @returns true if the pattern is not subscribed yet and has to be subscribed at the client
+     */
+    acquire(client: object, pattern: string): boolean {
+        let counts = this.#counts.get(client);
+        if (!counts) {
+            counts = new Map();
+            this.#counts.set(client, counts);
+        }
+        const count = counts.get(pattern) ?? 0;
+        counts.set(pattern, count + 1);
+        return count === 0;
+    }
+
+    /**
+     * Remove a subscription of a pattern
+     *
+     * @param client the database client the pattern is subscribed at
+     * @param pattern id or pattern that was counted via `acquire()`
+     * @returns true if it was the last subscription and the pattern has to be unsubscribed at the client
+     */
+    release(client: object, pattern: string): boolean {
+        const counts = this.#counts.get(client);
+        const count = counts?.get(pattern) ?? 0;
+        if (count > 1) {
+            counts!.set(pattern, count - 1);
+            return false;
+        }
+        counts?.delete(pattern);
+        return true;
+    }
+}
@@ -0,0 +1,217 @@
+import type { PluginConfigSchema, PluginConfigSchemaType } from '../types';
+
+/** Keys of the plugin configuration that are handled by plugin-base itself and never validated against the schema */
+export const RESERVED_CONFIG_KEYS: readonly string[] = [
+    'enabled',
+    'timeouts',
+    'permissions',
+    'restart',
+    'isolation',
+    'logLevel',
+];
+
+/** Result of a validation */
+export interface ConfigValidationResult {
+    /** The configuration with defaults applied and values coerced */
+    config: Record<string, any>;
+    /** Human-readable validation errors, empty if the configuration is valid */
+    errors: string[];
+}
+
+/**
+ * Get the type of value in terms of the schema
+ *
+ * @param value the value to check
+ */
+function getType(value: unknown): PluginConfigSchemaType | 'undefined' {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value as PluginConfigSchemaType;
+}
+
+/**
+ * Try to convert a value into the given type
+ *
+ * @param value the value to convert
+ * @param type the requested type
+ * @returns the converted value or undefined if it cannot be converted
+ */
+function coerce(value: unknown, type: PluginConfigSchemaType): unknown {
+    const actual = getType(value);
+    if (actual === type || (type === 'number' && actual === 'integer')) {
+        return value;
+    }
+
+    switch (type) {
+        case 'number':
+        case 'integer':
+            if (typeof value === 'string' && value.trim() !== '') {
+                const num = Number(value);
+                if (Number.isFinite(num) && (type === 'number' || Number.isInteger(num))) {
+                    return num;
+                }
+            }
+            return undefined;
+        case 'boolean':
+            if (value === 'true' || value === 1 || value === '1') {
+                return true;
+            }
+            if (value === 'false' || value === 0 || value === '0') {
+                return false;
+            }
+            return undefined;
+        case 'string':
+            return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Validate a single value against its schema
+ *
+ * @param schema the schema of the value
+ * @param value the value to validate
+ * @param path path of the value in the configuration, used in error messages
+ * @param errors collected errors
+ * @param ignoredKeys keys of an object that are not validated
+ * @returns the value with coercions and defaults applied
+ */
+function validateValue(
+    schema: PluginConfigSchema,
+    value: unknown,
+    path: string,
+    errors: string[],
+    ignoredKeys: readonly string[] = [],
+): unknown {
+    const name = path || 'configuration';
+
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        let coerced: unknown;
+        for (const type of types) {
+            coerced = coerce(value, type);
+            if (coerced !== undefined) {
+                break;
+            }
+        }
+        if (coerced === undefined) {
+            errors.push(`${name} must be of type ${types.join(' or ')}, but is ${getType(value)}`);
+            return value;
+        }
+        value = coerced;
+    }
+
+    if (schema.enum && !schema.enum.some(allowed => allowed === value)) {
+        errors.push(`${name} must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${name} must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${name} must be <= ${schema.maximum}`);
+        }
+    } else if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${name} must have at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${name} must have at most ${schema.maxLength} characters`);
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${name} must match the pattern ${schema.pattern}`);
+        }
+    } else if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${name} must have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${name} must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            const items = schema.items;
+            value = value.map((item, i) => validateValue(items, item, `${name}[${i}]`, errors));
+        }
+    } else if (value && typeof value === 'object') {
+        value = validateObject(schema, value as Record<string, any>, path, errors, ignoredKeys);
+    }
+
+    return value;
+}
+
+/**
+ * Validate the properties of an object
+ *
+ * @param schema the schema of the object
+ * @param obj the object to validate
+ * @param path path of the object in the configuration, used in error messages
+ * @param errors collected errors
+ * @param ignoredKeys keys that are not validated
+ * @returns a copy of the object with coercions and defaults applied
+ */
+function validateObject(
+    schema: PluginConfigSchema,
+    obj: Record<string, any>,
+    path: string,
+    errors: string[],
+    ignoredKeys: readonly string[],
+): Record<string, any> {
+    const result: Record<string, any> = { ...obj };
+    const properties = schema.properties || {};
+
+    for (const [key, propertySchema] of Object.entries(properties)) {
+        const propertyPath = path ? `${path}.${key}` : key;
+        if (result[key] === undefined) {
+            if (propertySchema.default !== undefined) {
+                result[key] = structuredClone(propertySchema.default);
+            } else if (schema.required?.includes(key)) {
+                errors.push(`${propertyPath} is required`);
+            }
+            continue;
+        }
+        result[key] = validateValue(propertySchema, result[key], propertyPath, errors);
+    }
+
+    for (const key of schema.required || []) {
+        if (!properties[key] && result[key] === undefined) {
+            errors.push(`${path ? `${path}.${key}` : key} is required`);
+        }
+    }
+
+    if (schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+        for (const key of Object.keys(result)) {
+            if (properties[key] || ignoredKeys.includes(key)) {
+                continue;
+            }
+            const propertyPath = path ? `${path}.${key}` : key;
+            if (schema.additionalProperties === false) {
+                errors.push(`${propertyPath} is not allowed`);
+            } else {
+                result[key] = validateValue(schema.additionalProperties, result[key], propertyPath, errors);
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Validate a plugin configuration against a schema, apply defaults and coerce values to the declared types
+ *
+ * @param schema the schema of the whole configuration
+ * @param config the plugin configuration
+ */
+export function validatePluginConfig(schema: PluginConfigSchema, config: Record<string, any>): ConfigValidationResult {
+    const errors: string[] = [];
+    const validated = validateValue({ type: 'object', ...schema }, config, '', errors, RESERVED_CONFIG_KEYS);
+    return { config: validated as Record<string, any>, errors };
+}
@@ -0,0 +1,59 @@
+import type { PluginPermissions } from '../types';
+
+/** Kind of database access of a plugin */
+export type PluginAccess = 'read' | 'write';
+
+/**
+ * Check if an id matches an ioBroker id pattern, where `*` matches any number of characters
+ *
+ * @param id the id to check
+ * @param pattern the pattern, e.g. `system.adapter.*.alive`
+ */
+export function matchesIdPattern(id: string, pattern: string): boolean {
+    if (!pattern.includes('*')) {
+        return id === pattern;
+    }
+    const regExp = new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+    return regExp.test(id);
+}
+
+/**
+ * Combine the permissions of the manifest and the configuration of a plugin
+ *
+ * @param permissions the declared permissions, entries may be undefined
+ * @returns all patterns per kind of access
+ */
+export function mergePermissions(...permissions: (PluginPermissions | undefined)[]): Required<PluginPermissions> {
+    const merged: Required<PluginPermissions> = { read: [], write: [] };
+    for (const permission of permissions) {
+        if (Array.isArray(permission?.read)) {
+            merged.read.push(...permission.read);
+        }
+        if (Array.isArray(permission?.write)) {
+            merged.write.push(...permission.write);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Check if a plugin may access an id. Everything inside the plugin namespace is allowed, ids outside of it have to
+ * match a declared pattern. Write patterns also allow to read.
+ *
+ * @param id the id to access
+ * @param pluginNamespace the namespace of the plugin
+ * @param permissions the declared permissions of the plugin
+ * @param access the kind of access
+ */
+export function isAccessAllowed(
+    id: string,
+    pluginNamespace: string,
+    permissions: Required<PluginPermissions>,
+    access: PluginAccess,
+): boolean {
+    if (id === pluginNamespace || id.startsWith(`${pluginNamespace}.`)) {
+        return true;
+    }
+    const patterns = access === 'write' ? permissions.write : [...permissions.read, ...permissions.write];
+    return patterns.some(pattern => matchesIdPattern(id, pattern));
+}
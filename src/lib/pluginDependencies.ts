@@ -0,0 +1,87 @@
+import type { PluginManifest } from '../types';
+
+/** Names of the plugins a plugin depends on */
+export interface PluginDependencies {
+    /** The plugin is not initialized without these plugins */
+    required: string[];
+    /** These plugins are initialized before the plugin, if they are configured */
+    optional: string[];
+}
+
+/**
+ * Get the dependencies out of the manifest of a plugin
+ *
+ * @param manifest manifest of the plugin
+ */
+export function getPluginDependencies(manifest: PluginManifest): PluginDependencies {
+    return {
+        required: Array.isArray(manifest.dependencies) ? manifest.dependencies : [],
+        optional: Array.isArray(manifest.optionalDependencies) ? manifest.optionalDependencies : [],
+    };
+}
+
+/**
+ * Sort plugins, so that every plugin comes after the plugins it depends on.
+ * Otherwise, the order is kept, and a dependency that would close a cycle is ignored.
+ *
+ * @param dependencies the dependencies of all plugins
+ * @returns the names of all plugins in the order to initialize them
+ */
+export function sortByDependencies(dependencies: Record<string, PluginDependencies>): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (name: string): void => {
+        if (visited.has(name)) {
+            return;
+        }
+        visited.add(name);
+        for (const dependency of [...dependencies[name].required, ...dependencies[name].optional]) {
+            if (dependencies[dependency]) {
+                visit(dependency);
+            }
+        }
+        order.push(name);
+    };
+
+    Object.keys(dependencies).forEach(visit);
+    return order;
+}
+
+/**
+ * Find the plugins that require themselves through their required dependencies
+ *
+ * @param dependencies the dependencies of all plugins
+ * @returns the cycle, e.g. `['a', 'b', 'a']`, for every plugin that is part of one
+ */
+export function findDependencyCycles(dependencies: Record<string, PluginDependencies>): Record<string, string[]> {
+    const cycles: Record<string, string[]> = {};
+    const finished = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (name: string): void => {
+        const index = path.indexOf(name);
+        if (index !== -1) {
+            const cycle = [...path.slice(index), name];
+            for (const member of path.slice(index)) {
+                cycles[member] ??= cycle;
+            }
+            return;
+        }
+        if (finished.has(name)) {
+            return;
+        }
+
+        path.push(name);
+        for (const dependency of dependencies[name].required) {
+            if (dependencies[dependency]) {
+                visit(dependency);
+            }
+        }
+        path.pop();
+        finished.add(name);
+    };
+
+    Object.keys(dependencies).forEach(visit);
+    return cycles;
+}
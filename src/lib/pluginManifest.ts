@@ -0,0 +1,89 @@
+import semver from 'semver';
+import type { PluginHandlerSettings, PluginIncompatibility, PluginManifest } from '../types';
+
+/** The version of this package, the package.json is copied into the build folders */
+export const PLUGIN_BASE_VERSION: string = require('../package.json').version;
+
+/**
+ * Get the manifest out of the package.json of a plugin
+ *
+ * @param packageJson package.json contents of the plugin
+ * @returns the manifest, an empty one if the plugin does not declare any
+ */
+export function getPluginManifest(packageJson: Record<string, any> | undefined): PluginManifest {
+    const manifest = packageJson?.iobrokerPlugin;
+    return manifest && typeof manifest === 'object' ? manifest : {};
+}
+
+/**
+ * Check if a version satisfies the range, prerelease versions are treated like releases
+ *
+ * @param version the version to check
+ * @param range semver range
+ */
+function satisfies(version: string | undefined, range: string): boolean {
+    return !!version && semver.satisfies(version, range, { includePrerelease: true });
+}
+
+/**
+ * Check if the plugin can be used in the environment of the handler
+ *
+ * @param manifest manifest of the plugin
+ * @param settings settings of the handler that wants to use the plugin
+ * @returns null if the plugin is compatible, else the reason why it is not
+ */
+export function checkPluginCompatibility(
+    manifest: PluginManifest,
+    settings: PluginHandlerSettings,
+): PluginIncompatibility | null {
+    if (Array.isArray(manifest.scopes) && !manifest.scopes.includes(settings.scope)) {
+        return {
+            reason: 'scope',
+            required: manifest.scopes.join(', '),
+            actual: settings.scope,
+            message: `only supports the scope(s) "${manifest.scopes.join('", "')}", but is used in scope "${settings.scope}"`,
+        };
+    }
+
+    if (manifest.controllerVersion && !satisfies(settings.controllerVersion, manifest.controllerVersion)) {
+        return {
+            reason: 'controllerVersion',
+            required: manifest.controllerVersion,
+            actual: settings.controllerVersion,
+            message: `requires js-controller ${manifest.controllerVersion}, but ${settings.controllerVersion} is installed`,
+        };
+    }
+
+    if (manifest.pluginBaseVersion && !satisfies(PLUGIN_BASE_VERSION, manifest.pluginBaseVersion)) {
+        return {
+            reason: 'pluginBaseVersion',
+            required: manifest.pluginBaseVersion,
+            actual: PLUGIN_BASE_VERSION,
+            message: `requires @iobroker/plugin-base ${manifest.pluginBaseVersion}, but ${PLUGIN_BASE_VERSION} is used`,
+        };
+    }
+
+    if (manifest.parents && typeof manifest.parents === 'object') {
+        const parentName: string = settings.parentPackage?.name || '';
+        const parentVersion: string = settings.parentPackage?.version || '';
+        const range = manifest.parents[parentName];
+        if (range === undefined) {
+            return {
+                reason: 'parent',
+                required: Object.keys(manifest.parents).join(', '),
+                actual: parentName,
+                message: `can only be used in ${Object.keys(manifest.parents).join(', ')}, but is used in ${parentName || 'an unknown parent'}`,
+            };
+        }
+        if (range && !satisfies(parentVersion, range)) {
+            return {
+                reason: 'parent',
+                required: `${parentName}@${range}`,
+                actual: `${parentName}@${parentVersion}`,
+                message: `requires ${parentName} ${range}, but ${parentVersion} is used`,
+            };
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,176 @@
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import type PluginBase from './PluginBase';
+
+/** Conditions that are matched in the `exports` map of a plugin, when it is loaded via `import()` */
+const IMPORT_CONDITIONS: readonly string[] = ['import', 'node', 'default'];
+
+/** A plugin package as it was found on disk */
+export interface PluginPackage {
+    /** Directory of the package */
+    dir: string;
+    /** Contents of the package.json of the plugin */
+    packageJson: Record<string, any>;
+}
+
+/**
+ * Get the npm package name of a plugin
+ *
+ * @param name name of the plugin
+ */
+export function getPluginPackageName(name: string): string {
+    return `@iobroker/plugin-${name}`;
+}
+
+/**
+ * Find the package of a plugin the same way node searches `node_modules` folders
+ *
+ * @param name name of the plugin
+ * @param resolveDirs directories to start the search from
+ * @returns the package or null if it was not found
+ */
+export function findPluginPackage(name: string, resolveDirs: string[]): PluginPackage | null {
+    const packageName = getPluginPackageName(name);
+
+    for (const resolveDir of resolveDirs) {
+        let dir = resolveDir;
+        for (;;) {
+            if (basename(dir) !== 'node_modules') {
+                const packageDir = join(dir, 'node_modules', packageName);
+                const packageJsonPath = join(packageDir, 'package.json');
+                if (existsSync(packageJsonPath)) {
+                    try {
+                        return { dir: packageDir, packageJson: JSON.parse(readFileSync(packageJsonPath, 'utf8')) };
+                    } catch {
+                        // a broken package.json makes the package unusable, continue like node does
+                    }
+                }
+            }
+            const parentDir = dirname(dir);
+            if (parentDir === dir) {
+                break;
+            }
+            dir = parentDir;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Find the package a resolved file of a plugin belongs to
+ *
+ * @param name name of the plugin
+ * @param file the resolved entry point of the plugin
+ * @returns the package or null if the file is not part of the plugin package
+ */
+export function findPackageOfFile(name: string, file: string): PluginPackage | null {
+    const packageName = getPluginPackageName(name);
+
+    let dir = dirname(file);
+    for (;;) {
+        const packageJsonPath = join(dir, 'package.json');
+        if (existsSync(packageJsonPath)) {
+            try {
+                const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+                if (packageJson?.name === packageName) {
+                    return { dir, packageJson };
+                }
+            } catch {
+                // not readable, look further up
+            }
+        }
+        const parentDir = dirname(dir);
+        if (parentDir === dir) {
+            return null;
+        }
+        dir = parentDir;
+    }
+}
+
+/**
+ * Resolve a target of the `exports` map with the conditions used by `import()`
+ *
+ * @param target the target or conditions object from the exports map
+ */
+function resolveExportsTarget(target: unknown): string | null {
+    if (typeof target === 'string') {
+        return target;
+    }
+    if (Array.isArray(target)) {
+        for (const entry of target) {
+            const resolved = resolveExportsTarget(entry);
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return null;
+    }
+    if (target && typeof target === 'object') {
+        // the order of the keys decides, not the order of the conditions
+        for (const [condition, value] of Object.entries(target)) {
+            if (IMPORT_CONDITIONS.includes(condition)) {
+                const resolved = resolveExportsTarget(value);
+                if (resolved) {
+                    return resolved;
+                }
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Resolve a file path like node does for a `main` entry without extension
+ *
+ * @param path path to resolve
+ */
+function resolveFile(path: string): string | null {
+    for (const candidate of [path, `${path}.js`, `${path}.mjs`, `${path}.cjs`, join(path, 'index.js')]) {
+        if (existsSync(candidate) && statSync(candidate).isFile()) {
+            return candidate;
+        }
+    }
+    return null;
+}
+
+/**
+ * Determine the entry point of a plugin package for loading it via `import()`
+ *
+ * @param pluginPackage the package to get the entry point of
+ * @returns absolute path of the entry point or null if the package has none
+ */
+export function resolvePackageEntry(pluginPackage: PluginPackage): string | null {
+    const { exports, main } = pluginPackage.packageJson;
+
+    if (exports !== undefined && exports !== null) {
+        const isSubpathMap =
+            typeof exports === 'object' &&
+            !Array.isArray(exports) &&
+            Object.keys(exports).some(key => key.startsWith('.'));
+        const target = resolveExportsTarget(isSubpathMap ? exports['.'] : exports);
+        if (!target) {
+            return null;
+        }
+        const entry = join(pluginPackage.dir, target);
+        return existsSync(entry) ? entry : null;
+    }
+
+    return resolveFile(join(pluginPackage.dir, typeof main === 'string' && main ? main : 'index.js'));
+}
+
+/**
+ * Get the plugin class out of the loaded module
+ *
+ * ESM modules and transpiled plugins export the class as `default`, CommonJS modules loaded via `import()`
+ * can even wrap it twice.
+ *
+ * @param pluginModule the module as returned by `require()` or `import()`
+ */
+export function getPluginClass(pluginModule: any): typeof PluginBase {
+    let exported = pluginModule;
+    while (exported && typeof exported !== 'function' && exported.default) {
+        exported = exported.default;
+    }
+    return exported;
+}
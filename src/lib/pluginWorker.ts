@@ -0,0 +1,150 @@
+/*
+ * Entry point of the worker thread an isolated plugin runs in, the counterpart of `IsolatedPlugin`
+ */
+import { pathToFileURL } from 'node:url';
+import { parentPort, workerData } from 'node:worker_threads';
+import {
+    PROXIED_METHODS,
+    toError,
+    type PendingCall,
+    type PluginWorkerData,
+    type ProxiedMethod,
+    type WorkerMessage,
+    type WorkerMethod,
+} from './IsolatedPlugin';
+import { LOG_LEVELS } from './NamespaceLogger';
+import type PluginBase from './PluginBase';
+import type { PluginDeclarations } from './PluginBase';
+import { getPluginClass } from './pluginResolver';
+import type { PluginConfig } from '../types';
+
+if (!parentPort) {
+    throw new Error('The plugin worker has to be started as worker thread');
+}
+const port = parentPort;
+const data = workerData as PluginWorkerData;
+/** Calls to the parent thread that wait for their result */
+const pendingCalls = new Map<number, PendingCall>();
+let lastCallId = 0;
+let plugin: PluginBase | null = null;
+
+/**
+ * Call a method of the stand-in of the plugin in the parent thread
+ *
+ * @param method the method to call
+ * @param args the arguments, they must be cloneable
+ * @returns the result of the method
+ */
+function callParent(method: ProxiedMethod, args: unknown[]): Promise<unknown> {
+    const id = ++lastCallId;
+    return new Promise((resolve, reject) => {
+        port.postMessage({ type: 'call', id, method, args } satisfies WorkerMessage);
+        pendingCalls.set(id, { resolve, reject });
+    });
+}
+
+/** Create a logger that passes the messages to the logger of the parent, which filters them */
+function createLogger(): ioBroker.Logger {
+    const logger = { level: data.logLevel } as ioBroker.Logger;
+    for (const level of LOG_LEVELS) {
+        logger[level] = (message: string): void =>
+            port.postMessage({ type: 'log', level, message } satisfies WorkerMessage);
+    }
+    return logger;
+}
+
+/** Logger of the plugin, its level follows the level of the plugin in the parent thread */
+const logger = createLogger();
+
+/** Load the class of the plugin */
+async function loadPluginClass(): Promise<typeof PluginBase> {
+    const pluginModule = data.loader === 'import' ? await import(pathToFileURL(data.entry).href) : require(data.entry);
+    return getPluginClass(pluginModule);
+}
+
+/** Load the plugin and connect its database methods to the parent thread */
+async function loadPlugin(): Promise<PluginBase> {
+    const PluginClass = await loadPluginClass();
+    const instance = new PluginClass({ ...data.settings, log: logger });
+
+    Object.assign(
+        instance,
+        Object.fromEntries(PROXIED_METHODS.map(method => [method, (...args: unknown[]) => callParent(method, args)])),
+    );
+    instance.provideService = (): never => {
+        throw new Error('Services are not available to isolated plugins');
+    };
+    instance.consumeService = () => Promise.reject(new Error('Services are not available to isolated plugins'));
+
+    // the parent exports the metrics, so they are sent to it whenever they are written to their states
+    const flushMetrics = instance.metrics.flush.bind(instance.metrics);
+    instance.metrics.flush = async (): Promise<void> => {
+        try {
+            await flushMetrics();
+        } finally {
+            port.postMessage({ type: 'metrics', snapshot: instance.metrics.snapshot() } satisfies WorkerMessage);
+        }
+    };
+    return instance;
+}
+
+/**
+ * Execute a method the parent thread called
+ *
+ * @param method the method to call
+ * @param args the arguments of the call
+ * @returns the result of the method
+ */
+async function handleCall(method: WorkerMethod, args: unknown[]): Promise<unknown> {
+    switch (method) {
+        case 'load': {
+            const { configSchema, objects, removeStaleObjects } = await loadPluginClass();
+            return { configSchema, objects, removeStaleObjects } satisfies PluginDeclarations;
+        }
+        case 'init':
+            plugin = await loadPlugin();
+            try {
+                await plugin.init(args[0] as PluginConfig);
+            } catch (err) {
+                // timers and resources of the plugin live in the worker
+                await plugin.releaseResources();
+                throw err;
+            }
+            plugin.isActive = true;
+            return;
+        case 'destroy':
+            if (!plugin) {
+                return true;
+            }
+            plugin.isActive = false;
+            try {
+                return await plugin.destroy();
+            } finally {
+                await plugin.releaseResources();
+            }
+        case 'onStateChange':
+            return plugin?.onStateChange(args[0] as string, args[1] as ioBroker.State | null | undefined);
+        case 'onObjectChange':
+            return plugin?.onObjectChange(args[0] as string, args[1] as ioBroker.Object | null | undefined);
+    }
+}
+
+port.on('message', (message: WorkerMessage) => {
+    if (message.type === 'result') {
+        const call = pendingCalls.get(message.id);
+        pendingCalls.delete(message.id);
+        if (message.error) {
+            call?.reject(message.error);
+        } else {
+            call?.resolve(message.value);
+        }
+    } else if (message.type === 'logLevel') {
+        logger.level = message.level;
+    } else if (message.type === 'call') {
+        handleCall(message.method as WorkerMethod, message.args).then(
+            value => port.postMessage({ type: 'result', id: message.id, value } satisfies WorkerMessage),
+            error =>
+                port.postMessage({ type: 'result', id: message.id, error: toError(error) } satisfies WorkerMessage),
+        );
+    }
+});
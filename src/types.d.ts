@@ -1,3 +1,7 @@
+import type { ResourceLimits } from 'node:worker_threads';
+import type ServiceRegistry from './lib/ServiceRegistry';
+import type SubscriptionRegistry from './lib/SubscriptionRegistry';
+
 export interface IoPackageFile {
     common: ioBroker.InstanceCommon;
     protectedNative?: string[];
@@ -42,6 +46,168 @@ export interface PluginHandlerSettings {
     parentPackage: Record<string, any>;
     /** The version of the installed JS-Controller */
     controllerVersion: string;
+    /** Timeouts for the lifecycle phases of all plugins, can be overridden by the `timeouts` of a plugin configuration */
+    timeouts?: PluginTimeouts;
+    /** Maximal number of plugins that `initPlugins()` initializes at the same time, 1 if not set */
+    initConcurrency?: number;
+    /** How failed plugins are restarted, can be overridden by the `restart` key of a plugin configuration */
+    restart?: PluginRestartPolicy;
+    /** Limits for the log messages of every plugin, the messages are not limited if not set */
+    logLimits?: PluginLogLimits;
+    /** Milliseconds between two writes of the metrics of a plugin to its states, default 10000, 0 writes them only when the plugin is destroyed */
+    metricsInterval?: number;
+    /**
+     * Called for every failure of a plugin and for every error a plugin reports via `reportError()`, e.g. to send the
+     * errors to a central reporter. The handler does not wait for the hook, errors of the hook are logged.
+     */
+    onError?: (
+        pluginName: string,
+        phase: PluginErrorPhase,
+        error: Error,
+        context: PluginErrorContext,
+    ) => void | Promise<void>;
+}
+
+/**
+ * Type of a metric of a plugin
+ */
+export type PluginMetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Description of a metric of a plugin
+ */
+export interface PluginMetricOptions {
+    /** Written to the state object and as `HELP` of the Prometheus export */
+    description?: string;
+    /** Unit of the values, e.g. `ms`, written to the state object */
+    unit?: string;
+    /** Upper bounds of the buckets of a histogram in the Prometheus export, by default suitable for durations in ms */
+    buckets?: number[];
+}
+
+/**
+ * A value that only increases, e.g. the number of uploads
+ */
+export interface PluginCounter {
+    readonly value: number;
+    /** Increase the counter, by 1 by default */
+    inc(value?: number): void;
+}
+
+/**
+ * A value that can go up and down, e.g. the length of a queue
+ */
+export interface PluginGauge {
+    readonly value: number;
+    set(value: number): void;
+    /** Increase the gauge, by 1 by default */
+    inc(value?: number): void;
+    /** Decrease the gauge, by 1 by default */
+    dec(value?: number): void;
+}
+
+/**
+ * The distribution of observed values, e.g. the latency of requests
+ */
+export interface PluginHistogram {
+    readonly count: number;
+    readonly sum: number;
+    observe(value: number): void;
+}
+
+/**
+ * The current values of a metric
+ */
+export interface PluginMetricSnapshot {
+    name: string;
+    type: PluginMetricType;
+    description?: string;
+    unit?: string;
+    /** Value of a counter or a gauge */
+    value?: number;
+    /** Number of the observations of a histogram */
+    count?: number;
+    /** Sum of the observations of a histogram */
+    sum?: number;
+    /** Cumulative number of the observations of a histogram per upper bound */
+    buckets?: { le: number; count: number }[];
+}
+
+/**
+ * Where the error of a plugin occurred
+ *
+ * - `resolve`: the plugin could not be found or is not compatible
+ * - `load`: the code of the plugin could not be loaded
+ * - `instantiate`: the constructor of the plugin failed
+ * - `init`: the initialization failed, also when the plugin is enabled or restarted at runtime
+ * - `destroy`: `destroy()` failed or returned false
+ * - `change`: `onStateChange()` or `onObjectChange()` failed
+ * - `runtime`: the plugin reported a fatal error via `fail()`
+ * - `report`: the plugin reported an error via `reportError()`
+ */
+export type PluginErrorPhase =
+    'resolve' | 'load' | 'instantiate' | 'init' | 'destroy' | 'change' | 'runtime' | 'report';
+
+/**
+ * What is known about the plugin an error belongs to, together with the fields the plugin passed to `reportError()`
+ */
+export interface PluginErrorContext extends Record<string, unknown> {
+    /** Name of the plugin */
+    pluginName: string;
+    /** Version of the plugin, if its package was found */
+    pluginVersion?: string;
+    /** The object namespace of the plugin */
+    pluginNamespace: string;
+    /** The scope in which the plugin is executed */
+    pluginScope: 'adapter' | 'controller';
+}
+
+/**
+ * Limits for the log messages of a plugin, so a plugin that fails in a loop cannot flood the log
+ */
+export interface PluginLogLimits {
+    /** Collapse identical consecutive messages into `last message repeated <n> times`, default true */
+    suppressDuplicates?: boolean;
+    /** Token bucket per level, e.g. `{ error: { perSecond: 1, burst: 10 } }`, levels without rate are not limited */
+    rates?: Partial<Record<ioBroker.LogLevel, PluginLogRate>>;
+    /** Milliseconds after which a summary of the suppressed messages is written, default 60000, 0 writes it only when the plugin is destroyed */
+    summaryInterval?: number;
+}
+
+/**
+ * Token bucket of a log level
+ */
+export interface PluginLogRate {
+    /** Number of messages that are allowed per second on average */
+    perSecond: number;
+    /** Number of messages that are allowed in a row, default `perSecond` but at least 1 */
+    burst?: number;
+}
+
+/**
+ * Policy to restart plugins whose initialization failed or that reported a fatal error via `fail()`
+ */
+export interface PluginRestartPolicy {
+    /** Maximal number of restarts in a row, 0 (the default) disables restarts */
+    maxAttempts?: number;
+    /** Delay in milliseconds before the first restart, it is doubled for every further attempt, default 1000 */
+    initialDelay?: number;
+    /** Maximal delay in milliseconds before a restart, default 60000 */
+    maxDelay?: number;
+    /** Up to this fraction of the delay is added randomly, default 0.2 */
+    jitter?: number;
+    /** After the plugin was active for this many milliseconds, the attempts are counted from zero again, default 60000 */
+    resetAfter?: number;
+}
+
+/**
+ * Timeouts in milliseconds for the lifecycle phases of a plugin, a phase without timeout may take forever
+ */
+export interface PluginTimeouts {
+    /** Maximum duration of the initialization, including `init()` */
+    init?: number;
+    /** Maximum duration of `destroy()` */
+    destroy?: number;
 }
 
 export interface PluginSettings {
@@ -65,4 +231,217 @@ export interface PluginSettings {
     adapterDir?: string;
     /** The directory of the js-controller */
     jsControllerDir: string;
+    /** The package.json contents of the plugin itself */
+    pluginPackage?: Record<string, any>;
+    /** The registry of the services the plugins of the handler provide to each other */
+    services?: ServiceRegistry;
+    /** Counts the subscriptions of the plugins of the handler, which share the database clients */
+    subscriptions?: SubscriptionRegistry;
+    /** Called by `fail()`, the handler destroys the plugin and restarts it according to the restart policy */
+    reportFailure?: (error: Error) => Promise<void>;
+    /** Limits for the log messages of the plugin */
+    logLimits?: PluginLogLimits;
+    /** Called by `reportError()`, the handler passes the error to its `onError` hook */
+    reportError?: (error: Error, context: PluginLogFields) => void;
+    /** Milliseconds between two writes of the metrics of the plugin to its states */
+    metricsInterval?: number;
+}
+
+/**
+ * Configuration keys that are handled by plugin-base for every plugin
+ */
+export interface PluginBaseConfig {
+    /** If the plugin is enabled, set by the base class before `init()` is called */
+    enabled?: boolean;
+    /** Timeouts for the lifecycle phases of this plugin, overrides the timeouts of the handler */
+    timeouts?: PluginTimeouts;
+    /** Ids outside the plugin namespace the plugin may access, in addition to the permissions of the manifest */
+    permissions?: PluginPermissions;
+    /** How this plugin is restarted after failures, overrides the restart policy of the handler */
+    restart?: PluginRestartPolicy;
+    /** Run the plugin in a worker thread instead of the process of the parent */
+    isolation?: boolean | PluginIsolation;
+    /** Level the plugin logs with, e.g. `'debug'`, independent of the level of the parent. Can be changed at runtime via `<pluginNamespace>.logLevel` */
+    logLevel?: ioBroker.LogLevel;
+}
+
+/**
+ * Settings of a plugin that runs in a worker thread
+ */
+export interface PluginIsolation {
+    /** Resource limits of the worker, e.g. `{ maxOldGenerationSizeMb: 64 }` */
+    resourceLimits?: ResourceLimits;
+}
+
+/**
+ * Patterns of object and state ids outside the plugin namespace a plugin may access, `*` is a wildcard.
+ * The plugin namespace itself can always be read and written.
+ */
+export interface PluginPermissions {
+    /** Ids the plugin may read */
+    read?: string[];
+    /** Ids the plugin may write, they can also be read */
+    write?: string[];
+}
+
+/**
+ * Structured fields of a log message, rendered as `key=value`
+ */
+export type PluginLogFields = Record<string, unknown>;
+
+/**
+ * A resource of a plugin that is released when the plugin is destroyed, see `registerDisposable()`
+ */
+export type PluginDisposable = (() => void | Promise<void>) | Disposable | AsyncDisposable;
+
+/**
+ * Configuration of a plugin as it is passed to `init()`
+ */
+export type PluginConfig<TConfig extends Record<string, any> = Record<string, any>> = TConfig & PluginBaseConfig;
+
+/**
+ * Manifest of a plugin, read from the `iobrokerPlugin` section of its package.json
+ */
+export interface PluginManifest {
+    /** The scopes the plugin can be executed in, all scopes if not set */
+    scopes?: ('adapter' | 'controller')[];
+    /** Semver range of the js-controller versions the plugin works with */
+    controllerVersion?: string;
+    /** Semver range of the plugin-base versions the plugin works with */
+    pluginBaseVersion?: string;
+    /** Package names of the parents (adapter/controller) the plugin can be used in, mapped to a semver range of their version */
+    parents?: Record<string, string>;
+    /** Schema of the plugin configuration, used if the plugin class does not define a static `configSchema` */
+    configSchema?: PluginConfigSchema;
+    /** Ids outside the plugin namespace the plugin needs to access */
+    permissions?: PluginPermissions;
+    /** Names of the plugins that have to be active before this plugin is initialized */
+    dependencies?: string[];
+    /** Names of the plugins that are initialized before this plugin, if they are configured */
+    optionalDependencies?: string[];
+    /** Objects of the plugin, used if the plugin class does not define static `objects` */
+    objects?: PluginObjectDefinition[];
+    /** Remove the objects below the plugin namespace that are not declared, used if the plugin class does not define static `removeStaleObjects` */
+    removeStaleObjects?: boolean;
+}
+
+/**
+ * An object of a plugin, declared like the `instanceObjects` of an adapter.
+ * It is created or updated before `init()` is called.
+ */
+export interface PluginObjectDefinition {
+    /** Id relative to the plugin namespace, e.g. `devices.count` */
+    _id: string;
+    type: 'state' | 'channel' | 'device' | 'folder';
+    /** For states `common.def` is written as value, if the state does not exist yet */
+    common: Partial<ioBroker.StateCommon>;
+    native?: Record<string, any>;
+}
+
+/** Types that can be used in a plugin configuration schema */
+export type PluginConfigSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON-Schema-style description of a plugin configuration (or a part of it)
+ */
+export interface PluginConfigSchema {
+    /** The allowed type(s) of the value, values are coerced to the first matching type */
+    type?: PluginConfigSchemaType | PluginConfigSchemaType[];
+    /** Description of the value */
+    description?: string;
+    /** Value that is used if the property is missing */
+    default?: unknown;
+    /** List of allowed values */
+    enum?: unknown[];
+    /** Minimal value of a number */
+    minimum?: number;
+    /** Maximal value of a number */
+    maximum?: number;
+    /** Minimal length of a string */
+    minLength?: number;
+    /** Maximal length of a string */
+    maxLength?: number;
+    /** Regular expression a string has to match */
+    pattern?: string;
+    /** Schemas of the properties of an object */
+    properties?: Record<string, PluginConfigSchema>;
+    /** Properties of an object that must be present */
+    required?: string[];
+    /** If properties not listed in `properties` are allowed, or the schema they must match */
+    additionalProperties?: boolean | PluginConfigSchema;
+    /** Schema of the items of an array */
+    items?: PluginConfigSchema;
+    /** Minimal number of items of an array */
+    minItems?: number;
+    /** Maximal number of items of an array */
+    maxItems?: number;
+}
+
+/**
+ * Reason why a plugin was refused because its manifest does not match the environment
+ */
+export interface PluginIncompatibility {
+    /** The manifest entry that does not match */
+    reason: 'scope' | 'controllerVersion' | 'pluginBaseVersion' | 'parent';
+    /** What the plugin requires */
+    required: string;
+    /** What was found instead */
+    actual: string;
+    /** Human-readable description of the incompatibility */
+    message: string;
+}
+
+/**
+ * What `PluginHandler.purgePlugin()` removed, or would remove on a dry run
+ */
+export interface PluginPurgeResult {
+    /** Name of the plugin */
+    name: string;
+    /** The namespace of the plugin, e.g. `system.adapter.<adaptername>.0.plugins.name` */
+    namespace: string;
+    /** Ids of the removed objects, including the folder of the namespace */
+    objects: string[];
+    /** Ids of the removed states */
+    states: string[];
+    /** True if nothing was removed, because it was a dry run */
+    dryRun: boolean;
+}
+
+/**
+ * Lifecycle status of a plugin, as written to the `info.status` state of the plugin
+ */
+export type PluginStatus = 'instantiated' | 'initializing' | 'active' | 'failed' | 'destroyed';
+
+/**
+ * Payload of the lifecycle events of `PluginHandler`
+ */
+export interface PluginLifecycleEvent {
+    /** Name of the plugin */
+    name: string;
+    /** Duration of the lifecycle phase in milliseconds, set for `initialized`, `initFailed`, `destroyed` and `destroyFailed` */
+    durationMs?: number;
+    /** What went wrong, set for `resolveFailed`, `initFailed` and `destroyFailed` */
+    error?: Error;
+}
+
+/**
+ * Lifecycle events of `PluginHandler` and their arguments
+ */
+export interface PluginHandlerEvents {
+    /** The code of a plugin was loaded and its instance was created */
+    instantiated: [event: PluginLifecycleEvent];
+    /** A plugin could not be resolved, loaded or instantiated, or it is not compatible */
+    resolveFailed: [event: PluginLifecycleEvent];
+    /** The initialization of a plugin finished, it is followed by `activated` */
+    initialized: [event: PluginLifecycleEvent];
+    /** The initialization of a plugin failed */
+    initFailed: [event: PluginLifecycleEvent];
+    /** A plugin became active, after its initialization or because it was enabled at runtime */
+    activated: [event: PluginLifecycleEvent];
+    /** An active plugin was disabled at runtime or destroyed */
+    deactivated: [event: PluginLifecycleEvent];
+    /** A plugin was destroyed */
+    destroyed: [event: PluginLifecycleEvent];
+    /** `destroy()` of a plugin failed */
+    destroyFailed: [event: PluginLifecycleEvent];
 }
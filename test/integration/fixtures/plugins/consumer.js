@@ -0,0 +1,16 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin that waits for the service named in its configuration during init and records it */
+class ConsumerPlugin extends PluginBase {
+    consumed;
+
+    async init(pluginConfig, signal) {
+        this.consumed = await this.consumeService(pluginConfig.service, signal);
+    }
+
+    async destroy() {
+        return true;
+    }
+}
+
+module.exports = ConsumerPlugin;
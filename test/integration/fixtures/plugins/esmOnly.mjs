@@ -0,0 +1,12 @@
+import pluginBase from '../../../../build/cjs/index.js';
+
+const { PluginBase } = pluginBase;
+
+/** Plugin that is published as pure ES module and can only be loaded via import() */
+export default class EsmOnlyPlugin extends PluginBase {
+    initCalls = [];
+
+    async init(pluginConfig) {
+        this.initCalls.push(pluginConfig);
+    }
+}
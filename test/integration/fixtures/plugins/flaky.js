@@ -0,0 +1,19 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin whose `init()` fails the first `failures` times, the instance counts its initializations */
+class FlakyPlugin extends PluginBase {
+    initAttempts = 0;
+
+    async init(pluginConfig) {
+        this.initAttempts++;
+        if (this.initAttempts <= (pluginConfig.failures ?? 0)) {
+            throw new Error(`attempt ${this.initAttempts} failed on purpose`);
+        }
+    }
+
+    async destroy() {
+        return true;
+    }
+}
+
+module.exports = FlakyPlugin;
@@ -0,0 +1,26 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin whose `init()` or `destroy()` (configured by `hangIn`) never finishes on its own */
+class HangingPlugin extends PluginBase {
+    initSignals = [];
+    destroySignals = [];
+    hangIn;
+
+    async init(pluginConfig, signal) {
+        this.initSignals.push(signal);
+        this.hangIn = pluginConfig.hangIn;
+        if (this.hangIn === 'init') {
+            await new Promise(() => {});
+        }
+    }
+
+    async destroy(signal) {
+        this.destroySignals.push(signal);
+        if (this.hangIn === 'destroy') {
+            await new Promise(() => {});
+        }
+        return true;
+    }
+}
+
+module.exports = HangingPlugin;
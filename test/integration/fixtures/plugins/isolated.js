@@ -0,0 +1,39 @@
+const { isMainThread, resourceLimits } = require('node:worker_threads');
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin that reports the thread it runs in, it can block or crash the thread on purpose */
+class IsolatedPlugin extends PluginBase {
+    async init(pluginConfig) {
+        this.log.info('Initialized');
+        await this.setState(`${this.pluginNamespace}.isMainThread`, { val: isMainThread, ack: true });
+        await this.setState(`${this.pluginNamespace}.maxOldGenerationSizeMb`, {
+            val: resourceLimits.maxOldGenerationSizeMb ?? null,
+            ack: true,
+        });
+        await this.subscribeStates(`${this.pluginNamespace}.command`);
+        if (pluginConfig.writeTo) {
+            await this.setState(pluginConfig.writeTo, { val: true, ack: true });
+        }
+        if (pluginConfig.crash) {
+            setTimeout(() => {
+                throw new Error('crashed on purpose');
+            }, 10);
+        }
+        while (pluginConfig.block) {
+            // never returns, like a plugin with a busy loop
+        }
+    }
+
+    async onStateChange(id, state) {
+        this.metrics.counter('commands').inc();
+        this.log.debug(`Command ${state.val}`);
+        await this.setState(`${this.pluginNamespace}.echo`, { val: state.val, ack: true });
+    }
+
+    async destroy() {
+        await this.setState(`${this.pluginNamespace}.destroyed`, { val: true, ack: true });
+        return true;
+    }
+}
+
+module.exports = IsolatedPlugin;
@@ -0,0 +1,21 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin whose first `init()` ignores the signal and finishes late, every run registers a resource */
+class LateInitPlugin extends PluginBase {
+    initAttempts = 0;
+    disposed = [];
+
+    async init(pluginConfig) {
+        const attempt = ++this.initAttempts;
+        if (attempt === 1) {
+            await new Promise(resolve => setTimeout(resolve, pluginConfig.lateBy));
+        }
+        this.registerDisposable(() => this.disposed.push(attempt));
+    }
+
+    async destroy() {
+        return true;
+    }
+}
+
+module.exports = LateInitPlugin;
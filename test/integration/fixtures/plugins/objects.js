@@ -0,0 +1,29 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin that declares its objects on the class and removes the objects it does not declare anymore */
+class ObjectsPlugin extends PluginBase {
+    static objects = [
+        { _id: 'devices', type: 'channel', common: { name: 'Devices' } },
+        {
+            _id: 'devices.count',
+            type: 'state',
+            common: { name: 'Number of devices', type: 'number', role: 'value', read: true, write: false, def: 0 },
+        },
+        {
+            _id: 'connection.host',
+            type: 'state',
+            common: { name: 'Host', type: 'string', role: 'text', read: true, write: true, def: 'localhost' },
+            native: { source: 'config' },
+        },
+    ];
+    static removeStaleObjects = true;
+
+    countAtInit;
+
+    async init() {
+        const count = await this.getState(`${this.pluginNamespace}.devices.count`);
+        this.countAtInit = count ? count.val : undefined;
+    }
+}
+
+module.exports = ObjectsPlugin;
@@ -0,0 +1,16 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin that provides the service named in its configuration */
+class ProviderPlugin extends PluginBase {
+    async init(pluginConfig) {
+        this.provideService(pluginConfig.service, {
+            greet: name => `${pluginConfig.greeting} ${name}`,
+        });
+    }
+
+    async destroy() {
+        return true;
+    }
+}
+
+module.exports = ProviderPlugin;
@@ -0,0 +1,24 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin that allocates managed timers and resources in `init()` and records when they are released */
+class ResourcesPlugin extends PluginBase {
+    ticks = 0;
+    released = [];
+
+    async init(pluginConfig) {
+        this.setTimeout(() => this.ticks++, pluginConfig.timeout ?? 60000);
+        this.setInterval(() => this.ticks++, pluginConfig.interval ?? 60000);
+        this.registerDisposable(() => this.released.push('function'));
+        this.registerDisposable({ [Symbol.dispose]: () => this.released.push('disposable') });
+        this.registerDisposable({ [Symbol.asyncDispose]: async () => this.released.push('async disposable') });
+        if (pluginConfig.failInit) {
+            throw new Error('init failed after allocating resources');
+        }
+    }
+
+    async destroy() {
+        return !this.refuseDestroy;
+    }
+}
+
+module.exports = ResourcesPlugin;
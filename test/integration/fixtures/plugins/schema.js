@@ -0,0 +1,25 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin that declares the schema of its configuration on the class */
+class SchemaPlugin extends PluginBase {
+    static configSchema = {
+        type: 'object',
+        properties: {
+            host: { type: 'string', minLength: 1 },
+            port: { type: 'integer', minimum: 1, maximum: 65535, default: 8080 },
+            secure: { type: 'boolean', default: false },
+            mode: { type: 'string', enum: ['push', 'pull'], default: 'push' },
+            tags: { type: 'array', items: { type: 'string' }, default: [] },
+        },
+        required: ['host'],
+        additionalProperties: false,
+    };
+
+    initCalls = [];
+
+    async init(pluginConfig) {
+        this.initCalls.push(pluginConfig);
+    }
+}
+
+module.exports = SchemaPlugin;
@@ -0,0 +1,30 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin whose `init()` takes `delay` milliseconds, all instances record their initializations in a shared log */
+class SlowPlugin extends PluginBase {
+    static log = [];
+    static running = 0;
+    static maxRunning = 0;
+
+    static reset() {
+        SlowPlugin.log = [];
+        SlowPlugin.running = 0;
+        SlowPlugin.maxRunning = 0;
+    }
+
+    async init(pluginConfig) {
+        const name = this.pluginNamespace.split('.').pop();
+        SlowPlugin.log.push(`start ${name}`);
+        SlowPlugin.running++;
+        SlowPlugin.maxRunning = Math.max(SlowPlugin.maxRunning, SlowPlugin.running);
+        await new Promise(resolve => setTimeout(resolve, pluginConfig.delay ?? 20));
+        SlowPlugin.running--;
+        SlowPlugin.log.push(`end ${name}`);
+    }
+
+    async destroy() {
+        return true;
+    }
+}
+
+module.exports = SlowPlugin;
@@ -0,0 +1,34 @@
+const { PluginBase } = require('../../../../build/cjs/index.js');
+
+/** Plugin that subscribes the patterns of its configuration and records the changes it receives */
+class SubscriberPlugin extends PluginBase {
+    stateChanges = [];
+    objectChanges = [];
+
+    async init(pluginConfig) {
+        for (const pattern of pluginConfig.states || []) {
+            await this.subscribeStates(pattern);
+        }
+        for (const pattern of pluginConfig.objects || []) {
+            await this.subscribeObjects(pattern);
+        }
+        this.failOnChange = !!pluginConfig.failOnChange;
+    }
+
+    onStateChange(id, state) {
+        if (this.failOnChange) {
+            throw new Error('change failed on purpose');
+        }
+        this.stateChanges.push({ id, val: state ? state.val : null });
+    }
+
+    async onObjectChange(id, obj) {
+        this.objectChanges.push({ id, type: obj ? obj.type : null });
+    }
+
+    async destroy() {
+        return true;
+    }
+}
+
+module.exports = SubscriberPlugin;
@@ -0,0 +1,4 @@
+throw new Error('this plugin cannot be imported');
+
+// never reached, but needed to link the module before it is evaluated
+export default null;
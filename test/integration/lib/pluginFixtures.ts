@@ -1,16 +1,75 @@
 import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
 
 const FIXTURE_DIR = join(__dirname, '..', 'fixtures', 'plugins');
 
+/** A fixture file, optionally with additional package.json contents such as a manifest */
+export interface PluginFixture {
+    /** File name of the fixture */
+    fixture: string;
+    /** Merged into the generated package.json of the plugin */
+    packageJson?: Record<string, any>;
+}
+
 export interface PluginFixtures {
     /** Directory to hand to `addPlugins()`, it contains a `node_modules` folder with the plugins */
     dir: string;
+    /** Install another fixture under the name of an already installed plugin, e.g. to test reloading */
+    replace: (name: string, plugin: string | PluginFixture) => void;
     /** Remove the whole temporary tree again */
     cleanup: () => void;
 }
 
+/**
+ * Write the package of a single plugin, an existing package is overwritten
+ *
+ * @param dir directory that contains the `node_modules` folder
+ * @param name name of the plugin
+ * @param plugin fixture file name or fixture
+ */
+function writePluginPackage(dir: string, name: string, plugin: string | PluginFixture): void {
+    const { fixture, packageJson } = typeof plugin === 'string' ? { fixture: plugin } : plugin;
+    const packageDir = join(dir, 'node_modules', '@iobroker', `plugin-${name}`);
+    mkdirSync(packageDir, { recursive: true });
+    if (fixture.endsWith('.mjs')) {
+        writeFileSync(
+            join(packageDir, 'package.json'),
+            `${JSON.stringify(
+                {
+                    name: `@iobroker/plugin-${name}`,
+                    version: '1.0.0',
+                    type: 'module',
+                    exports: { '.': { import: './index.js' } },
+                    ...packageJson,
+                },
+                null,
+                4,
+            )}\n`,
+        );
+        writeFileSync(
+            join(packageDir, 'index.js'),
+            `export { default } from ${JSON.stringify(pathToFileURL(join(FIXTURE_DIR, fixture)).href)};\n`,
+        );
+        return;
+    }
+
+    writeFileSync(
+        join(packageDir, 'package.json'),
+        `${JSON.stringify(
+            { name: `@iobroker/plugin-${name}`, version: '1.0.0', main: 'index.js', ...packageJson },
+            null,
+            4,
+        )}\n`,
+    );
+    // Re-export the fixture instead of copying it, so it keeps resolving plugin-base relatively
+    writeFileSync(
+        join(packageDir, 'index.js'),
+        `module.exports = require(${JSON.stringify(join(FIXTURE_DIR, fixture))});\n`,
+    );
+}
+
 /**
  * Install the checked-in fixture plugins into a throwaway `node_modules` tree.
  *
@@ -18,28 +77,22 @@ export interface PluginFixtures {
  * loads them with `require()`, so the plugins have to exist on disk under their real package name
  * for the test to exercise that code path.
  *
- * @param plugins map of plugin name (without the `@iobroker/plugin-` prefix) to fixture file name
+ * Fixtures with the `.mjs` extension are installed as ESM-only package (`"type": "module"` and an
+ * `exports` map without `require` condition), which can only be loaded via `import()`.
+ *
+ * @param plugins map of plugin name (without the `@iobroker/plugin-` prefix) to fixture file name or fixture
  */
-export function installPluginFixtures(plugins: Record<string, string>): PluginFixtures {
+export function installPluginFixtures(plugins: Record<string, string | PluginFixture>): PluginFixtures {
     const root = mkdtempSync(join(tmpdir(), 'iobroker-plugin-base-'));
     const dir = join(root, 'parent');
 
-    for (const [name, fixture] of Object.entries(plugins)) {
-        const packageDir = join(dir, 'node_modules', '@iobroker', `plugin-${name}`);
-        mkdirSync(packageDir, { recursive: true });
-        writeFileSync(
-            join(packageDir, 'package.json'),
-            `${JSON.stringify({ name: `@iobroker/plugin-${name}`, version: '1.0.0', main: 'index.js' }, null, 4)}\n`,
-        );
-        // Re-export the fixture instead of copying it, so it keeps resolving plugin-base relatively
-        writeFileSync(
-            join(packageDir, 'index.js'),
-            `module.exports = require(${JSON.stringify(join(FIXTURE_DIR, fixture))});\n`,
-        );
+    for (const [name, plugin] of Object.entries(plugins)) {
+        writePluginPackage(dir, name, plugin);
     }
 
     return {
         dir,
+        replace: (name, plugin) => writePluginPackage(dir, name, plugin),
         cleanup: () => rmSync(root, { recursive: true, force: true }),
     };
 }
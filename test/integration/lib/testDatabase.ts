@@ -3,10 +3,38 @@ import type { Client as StatesClient } from '@iobroker/db-states-redis';
 
 /** A single database access, recorded in the order it happened */
 export interface DatabaseCall {
-    method: 'getObject' | 'setObject' | 'extendObject' | 'getState' | 'setState';
+    method:
+        | 'getObject'
+        | 'getObjects'
+        | 'getObjectKeys'
+        | 'getObjectView'
+        | 'setObject'
+        | 'extendObject'
+        | 'delObject'
+        | 'subscribeObjects'
+        | 'unsubscribeObjects'
+        | 'getState'
+        | 'getStates'
+        | 'getKeys'
+        | 'setState'
+        | 'delState'
+        | 'subscribe'
+        | 'unsubscribe';
+    /** The id, the pattern or the ids of a bulk operation separated by `,` */
     id: string;
 }
 
+/**
+ * Find the keys that match a redis pattern, where `*` matches any number of characters
+ *
+ * @param keys the existing keys
+ * @param pattern the pattern
+ */
+function matchKeys(keys: Iterable<string>, pattern: string): string[] {
+    const regExp = new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+    return [...keys].filter(key => regExp.test(key));
+}
+
 /**
  * Deep merge used to emulate the merge semantics of `extendObject`
  *
@@ -35,6 +63,10 @@ function mergeDeep(target: Record<string, any>, source: Record<string, any>): Re
 export class TestDatabase {
     readonly objects = new Map<string, ioBroker.Object>();
     readonly states = new Map<string, ioBroker.State>();
+    /** Patterns that are currently subscribed in the states database */
+    readonly stateSubscriptions = new Set<string>();
+    /** Patterns that are currently subscribed in the objects database */
+    readonly objectSubscriptions = new Set<string>();
     readonly calls: DatabaseCall[] = [];
     readonly objectsDb: ObjectsClient;
     readonly statesDb: StatesClient;
@@ -45,6 +77,30 @@ export class TestDatabase {
                 this.calls.push({ method: 'getObject', id });
                 return Promise.resolve(this.objects.get(id) ?? null);
             },
+            getObjectsAsync: (ids: string[]): Promise<(ioBroker.Object | null)[]> => {
+                this.calls.push({ method: 'getObjects', id: ids.join(',') });
+                return Promise.resolve(ids.map(id => this.objects.get(id) ?? null));
+            },
+            getKeysAsync: (pattern: string): Promise<string[]> => {
+                this.calls.push({ method: 'getObjectKeys', id: pattern });
+                return Promise.resolve(matchKeys(this.objects.keys(), pattern));
+            },
+            getObjectViewAsync: (
+                design: string,
+                search: string,
+                params: { startkey: string; endkey: string },
+            ): Promise<{ rows: { id: string; value: ioBroker.Object }[] }> => {
+                this.calls.push({ method: 'getObjectView', id: `${design}/${search}` });
+                const rows = [...this.objects.entries()]
+                    .filter(([id, obj]) => obj.type === search && id >= params.startkey && id <= params.endkey)
+                    .map(([id, value]) => ({ id, value }));
+                return Promise.resolve({ rows });
+            },
+            delObjectAsync: (id: string): Promise<void> => {
+                this.calls.push({ method: 'delObject', id });
+                this.objects.delete(id);
+                return Promise.resolve();
+            },
             setObjectAsync: (id: string, obj: ioBroker.Object): Promise<{ id: string }> => {
                 this.calls.push({ method: 'setObject', id });
                 this.objects.set(id, { ...obj, _id: id } as ioBroker.Object);
@@ -59,6 +115,16 @@ export class TestDatabase {
                 this.objects.set(id, merged);
                 return Promise.resolve({ id, value: merged });
             },
+            subscribeAsync: (pattern: string): Promise<void> => {
+                this.calls.push({ method: 'subscribeObjects', id: pattern });
+                this.objectSubscriptions.add(pattern);
+                return Promise.resolve();
+            },
+            unsubscribeAsync: (pattern: string): Promise<void> => {
+                this.calls.push({ method: 'unsubscribeObjects', id: pattern });
+                this.objectSubscriptions.delete(pattern);
+                return Promise.resolve();
+            },
         } as unknown as ObjectsClient;
 
         this.statesDb = {
@@ -66,6 +132,19 @@ export class TestDatabase {
                 this.calls.push({ method: 'getState', id });
                 return Promise.resolve(this.states.get(id) ?? null);
             },
+            getStates: (ids: string[]): Promise<(ioBroker.State | null)[]> => {
+                this.calls.push({ method: 'getStates', id: ids.join(',') });
+                return Promise.resolve(ids.map(id => this.states.get(id) ?? null));
+            },
+            getKeys: (pattern: string): Promise<string[]> => {
+                this.calls.push({ method: 'getKeys', id: pattern });
+                return Promise.resolve(matchKeys(this.states.keys(), pattern));
+            },
+            delState: (id: string): Promise<void> => {
+                this.calls.push({ method: 'delState', id });
+                this.states.delete(id);
+                return Promise.resolve();
+            },
             setStateAsync: (id: string, state: ioBroker.SettableState): Promise<string> => {
                 this.calls.push({ method: 'setState', id });
                 this.states.set(id, {
@@ -77,6 +156,16 @@ export class TestDatabase {
                 });
                 return Promise.resolve(id);
             },
+            subscribe: (pattern: string): Promise<void> => {
+                this.calls.push({ method: 'subscribe', id: pattern });
+                this.stateSubscriptions.add(pattern);
+                return Promise.resolve();
+            },
+            unsubscribe: (pattern: string): Promise<void> => {
+                this.calls.push({ method: 'unsubscribe', id: pattern });
+                this.stateSubscriptions.delete(pattern);
+                return Promise.resolve();
+            },
         } as unknown as StatesClient;
     }
 
@@ -90,6 +179,18 @@ export class TestDatabase {
         this.states.set(id, { val, ack: true, from: 'test', ts: 1_700_000_000_000, lc: 1_700_000_000_000 });
     }
 
+    /**
+     * Write a state like a user does in Admin, i.e. not acknowledged
+     *
+     * @param id id of the state
+     * @param val value of the state
+     * @returns the state as the database would publish it to its subscribers
+     */
+    async userWrite(id: string, val: ioBroker.StateValue): Promise<ioBroker.State> {
+        await this.statesDb.setStateAsync(id, { val, ack: false, from: 'system.adapter.admin.0' });
+        return this.states.get(id)!;
+    }
+
     /**
      * All ids a given method was called with
      *
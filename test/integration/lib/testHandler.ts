@@ -7,6 +7,8 @@ export interface TestHandlerOptions {
     scope?: PluginHandlerSettings['scope'];
     namespace?: PluginHandlerSettings['namespace'];
     logNamespace?: string;
+    /** Additional handler settings */
+    settings?: Partial<PluginHandlerSettings>;
 }
 
 export interface TestHandler {
@@ -32,6 +34,7 @@ export function createTestHandler(options: TestHandlerOptions = {}): TestHandler
         iobrokerConfig: {} as InternalAdapterJsonConfig,
         parentPackage: { name: 'iobroker.test', version: '1.2.3' },
         controllerVersion: '7.2.2',
+        ...options.settings,
     };
 
     return { handler: new PluginHandler(settings), db, log, settings };
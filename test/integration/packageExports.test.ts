@@ -53,20 +53,59 @@ describe('published package', () => {
     it('keeps the documented instance methods on the exported classes', () => {
         const { PluginBase, PluginHandler } = require(join(ROOT_DIR, packageJson.main));
 
-        for (const method of ['init', 'destroy', 'getState', 'setState', 'getObject', 'setObject', 'extendObject']) {
+        for (const method of [
+            'init',
+            'destroy',
+            'getState',
+            'setState',
+            'getObject',
+            'setObject',
+            'extendObject',
+            'getStates',
+            'setStates',
+            'delState',
+            'getObjects',
+            'getObjectView',
+            'delObject',
+            'fail',
+            'reportError',
+            'setTimeout',
+            'setInterval',
+            'clearTimeout',
+            'clearInterval',
+            'registerDisposable',
+            'subscribeStates',
+            'unsubscribeStates',
+            'subscribeObjects',
+            'unsubscribeObjects',
+            'onStateChange',
+            'onObjectChange',
+            'provideService',
+            'consumeService',
+        ]) {
             assert.equal(typeof PluginBase.prototype[method], 'function', `PluginBase.${method} is missing`);
         }
         for (const method of [
             'addPlugins',
+            'addPluginsAsync',
             'instantiatePlugin',
+            'instantiatePluginAsync',
             'setDatabaseForPlugin',
             'setDatabaseForPlugins',
             'initPlugin',
             'initPlugins',
             'destroy',
             'destroyAll',
+            'handleStateChange',
+            'handleObjectChange',
+            'reloadPlugin',
             'getPluginInstance',
             'getPluginConfig',
+            'getPluginIncompatibility',
+            'getPluginSkipReason',
+            'purgePlugin',
+            'getOrphanedPlugins',
+            'getPrometheusMetrics',
             'pluginExists',
             'isPluginInstantiated',
             'isPluginActive',
@@ -1,5 +1,6 @@
 import assert from 'node:assert/strict';
 import { after, before, describe, it } from 'node:test';
+import { setTimeout as delay } from 'node:timers/promises';
 
 import { PluginBase } from '../../build/cjs/index.js';
 import { installPluginFixtures, type PluginFixtures } from './lib/pluginFixtures.js';
@@ -38,7 +39,7 @@ async function initPlugin(
 
     context.handler.addPlugins({ simple: config }, fixtures.dir);
     context.handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
-    const instance = context.handler.getPluginInstance('simple') as RecordingPlugin;
+    const instance = context.handler.getPluginInstance<RecordingPlugin>('simple')!;
 
     await context.handler.initPlugins(options.ioPackage ?? createIoPackage());
 
@@ -47,7 +48,51 @@ async function initPlugin(
 
 describe('PluginBase', () => {
     before(() => {
-        fixtures = installPluginFixtures({ simple: 'simple.js', failinginit: 'failingInit.js' });
+        fixtures = installPluginFixtures({
+            simple: 'simple.js',
+            failinginit: 'failingInit.js',
+            resources: 'resources.js',
+            schema: 'schema.js',
+            objects: 'objects.js',
+            manifestobjects: {
+                fixture: 'simple.js',
+                packageJson: {
+                    iobrokerPlugin: {
+                        objects: [
+                            { _id: 'status', type: 'state', common: { type: 'string', role: 'text', def: 'ok' } },
+                        ],
+                    },
+                },
+            },
+            invalidobjects: {
+                fixture: 'simple.js',
+                packageJson: {
+                    iobrokerPlugin: {
+                        objects: [
+                            { _id: 'valid', type: 'state', common: {} },
+                            { _id: 'invalid', type: 'adapter' },
+                        ],
+                        removeStaleObjects: true,
+                    },
+                },
+            },
+            permitted: {
+                fixture: 'simple.js',
+                packageJson: {
+                    iobrokerPlugin: {
+                        permissions: { read: ['system.config'], write: ['0_userdata.0.permitted.*'] },
+                    },
+                },
+            },
+            manifestschema: {
+                fixture: 'simple.js',
+                packageJson: {
+                    iobrokerPlugin: {
+                        configSchema: { properties: { interval: { type: 'number', default: 60 } } },
+                    },
+                },
+            },
+        });
     });
 
     after(() => fixtures.cleanup());
@@ -161,6 +206,272 @@ describe('PluginBase', () => {
         });
     });
 
+    describe('health states', () => {
+        it('creates the read-only info states and writes the version of the plugin', async () => {
+            const { db } = await initPlugin({});
+
+            assert.equal(db.objects.get(`${PLUGIN_NAMESPACE}.info`)?.type, 'channel');
+            for (const name of ['status', 'lastError', 'initDurationMs', 'version', 'startedAt']) {
+                const object = db.objects.get(`${PLUGIN_NAMESPACE}.info.${name}`);
+                assert.equal(object?.type, 'state', `info.${name} exists`);
+                assert.equal(object.common.write, false, `info.${name} is read-only`);
+            }
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.info.version`)?.val, '1.0.0');
+        });
+
+        it('reports an active plugin with start time and duration of the initialization', async () => {
+            const before = Date.now();
+            const { instance, db } = await initPlugin({});
+
+            assert.equal(instance.status, 'active');
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.info.status`)?.val, 'active');
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.info.status`)?.ack, true);
+            assert.ok((db.states.get(`${PLUGIN_NAMESPACE}.info.startedAt`)?.val as number) >= before);
+            assert.equal(typeof db.states.get(`${PLUGIN_NAMESPACE}.info.initDurationMs`)?.val, 'number');
+        });
+
+        it('keeps a disabled plugin in the status instantiated', async () => {
+            const db = new TestDatabase();
+            db.seedState(`${PLUGIN_NAMESPACE}.info.status`, 'active');
+
+            const { instance } = await initPlugin({ enabled: false }, { db });
+
+            assert.equal(instance.status, 'instantiated');
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.info.status`)?.val, 'instantiated');
+            assert.equal(db.states.has(`${PLUGIN_NAMESPACE}.info.initDurationMs`), false);
+        });
+
+        it('reports the error of a failed initialization', async () => {
+            const context = createTestHandler();
+            context.handler.addPlugins({ failinginit: {} }, fixtures.dir);
+            context.handler.setDatabaseForPlugins(context.db.objectsDb, context.db.statesDb);
+
+            await context.handler.initPlugins(createIoPackage());
+
+            const namespace = 'system.adapter.test.0.plugins.failinginit';
+            assert.equal(context.handler.getPluginInstance('failinginit')?.status, 'failed');
+            assert.equal(context.db.states.get(`${namespace}.info.status`)?.val, 'failed');
+            assert.equal(context.db.states.get(`${namespace}.info.lastError`)?.val, 'init failed on purpose');
+        });
+
+        it('reports a plugin that was rejected by the handler as failed', async () => {
+            const context = createTestHandler();
+            context.handler.addPlugins({ schema: {} }, fixtures.dir);
+            context.handler.setDatabaseForPlugins(context.db.objectsDb, context.db.statesDb);
+
+            await context.handler.initPlugins(createIoPackage());
+
+            const namespace = 'system.adapter.test.0.plugins.schema';
+            assert.equal(context.db.states.get(`${namespace}.info.status`)?.val, 'failed');
+            assert.equal(
+                context.db.states.get(`${namespace}.info.lastError`)?.val,
+                'Invalid plugin configuration: host is required',
+            );
+        });
+
+        it('reports a destroyed plugin', async () => {
+            const context = createTestHandler();
+            context.handler.addPlugins({ simple: {} }, fixtures.dir);
+            context.handler.setDatabaseForPlugins(context.db.objectsDb, context.db.statesDb);
+            await context.handler.initPlugins(createIoPackage());
+
+            await context.handler.destroyAll();
+
+            assert.equal(context.db.states.get(`${PLUGIN_NAMESPACE}.info.status`)?.val, 'destroyed');
+        });
+    });
+
+    describe('configuration schema', () => {
+        /**
+         * Initialize one of the schema fixtures with the given configuration
+         *
+         * @param name name of the plugin
+         * @param config plugin configuration
+         */
+        async function initSchemaPlugin(
+            name: string,
+            config: Record<string, any>,
+        ): Promise<{
+            instance: RecordingPlugin;
+            log: TestLogger;
+            instantiated: boolean;
+            handler: ReturnType<typeof createTestHandler>['handler'];
+        }> {
+            const context = createTestHandler();
+            context.handler.addPlugins({ [name]: config }, fixtures.dir);
+            context.handler.setDatabaseForPlugins(context.db.objectsDb, context.db.statesDb);
+            const instance = context.handler.getPluginInstance<RecordingPlugin>(name)!;
+
+            await context.handler.initPlugins(createIoPackage());
+
+            return {
+                instance,
+                log: context.log,
+                instantiated: context.handler.isPluginInstantiated(name),
+                handler: context.handler,
+            };
+        }
+
+        it('applies defaults and coerces values before init() is called', async () => {
+            const { instance, handler } = await initSchemaPlugin('schema', {
+                host: 'example.com',
+                port: '443',
+                secure: 'true',
+            });
+
+            const expected = { host: 'example.com', port: 443, secure: true, mode: 'push', tags: [], enabled: true };
+            assert.deepEqual(instance.initCalls, [expected]);
+            assert.deepEqual(handler.getPluginConfig('schema'), expected, 'the handler returns the validated config');
+        });
+
+        it('rejects an invalid configuration with a readable list of errors', async () => {
+            const { instance, log, instantiated } = await initSchemaPlugin('schema', {
+                port: 70000,
+                mode: 'poll',
+                tags: ['a', {}],
+                hots: 'example.com',
+            });
+
+            assert.deepEqual(instance.initCalls, [], 'init() was never called');
+            assert.equal(instantiated, false, 'the plugin is destroyed like on every other initialization error');
+            assert.deepEqual(
+                log.messages('error').filter(message => message.startsWith('test.0 Plugin schema')),
+                [
+                    'test.0 Plugin schema Invalid plugin configuration (5 errors):',
+                    'test.0 Plugin schema - host is required',
+                    'test.0 Plugin schema - port must be <= 65535',
+                    'test.0 Plugin schema - mode must be one of "push", "pull"',
+                    'test.0 Plugin schema - tags[1] must be of type string, but is object',
+                    'test.0 Plugin schema - hots is not allowed',
+                ],
+            );
+            assert.ok(log.has('warn', 'Plugin schema destroyed because not initialized correctly: Invalid plugin'));
+        });
+
+        it('does not validate the enabled flag', async () => {
+            const { instance } = await initSchemaPlugin('schema', { host: 'example.com', enabled: 'yes' });
+
+            assert.equal(instance.initCalls?.length, 1);
+        });
+
+        it('uses the schema from the manifest if the class has none', async () => {
+            const { instance } = await initSchemaPlugin('manifestschema', { other: 'kept' });
+
+            assert.deepEqual(instance.initCalls, [{ other: 'kept', interval: 60, enabled: true }]);
+        });
+
+        it('passes the configuration unchanged without schema', async () => {
+            const config = { custom: 'value' };
+            const { instance } = await initPlugin(config);
+
+            assert.equal(instance.initCalls?.[0], config);
+        });
+    });
+
+    describe('declared objects', () => {
+        const ns = 'system.adapter.test.0.plugins.objects';
+
+        /**
+         * Initialize one of the fixtures that declare objects
+         *
+         * @param name name of the plugin
+         * @param db database with the objects of an earlier run
+         */
+        async function initObjectsPlugin(
+            name: string,
+            db = new TestDatabase(),
+        ): Promise<{ instance: RecordingPlugin; db: TestDatabase; log: TestLogger }> {
+            const context = createTestHandler();
+            context.handler.addPlugins({ [name]: {} }, fixtures.dir);
+            context.handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            const instance = context.handler.getPluginInstance<RecordingPlugin>(name)!;
+
+            await context.handler.initPlugins(createIoPackage());
+
+            return { instance, db, log: context.log };
+        }
+
+        it('creates the declared objects and their default values before init() is called', async () => {
+            const { instance, db } = await initObjectsPlugin('objects');
+
+            assert.equal(db.objects.get(`${ns}.devices`)?.type, 'channel');
+            assert.equal(db.objects.get(`${ns}.devices.count`)?.common.role, 'value');
+            assert.deepEqual(db.objects.get(`${ns}.connection.host`)?.native, { source: 'config' });
+            assert.equal(db.states.get(`${ns}.devices.count`)?.val, 0);
+            assert.equal(db.states.get(`${ns}.connection.host`)?.val, 'localhost');
+            assert.equal((instance as RecordingPlugin & { countAtInit?: number }).countAtInit, 0);
+        });
+
+        it('updates existing objects and keeps the values and custom settings of the user', async () => {
+            const db = new TestDatabase();
+            db.objects.set(`${ns}.devices.count`, {
+                _id: `${ns}.devices.count`,
+                type: 'state',
+                common: {
+                    name: 'Count',
+                    type: 'number',
+                    role: 'state',
+                    read: true,
+                    write: true,
+                    custom: { 'history.0': {} },
+                },
+                native: {},
+            });
+            db.seedState(`${ns}.devices.count`, 12);
+
+            await initObjectsPlugin('objects', db);
+
+            const object = db.objects.get(`${ns}.devices.count`)!;
+            assert.equal(object.common.role, 'value');
+            assert.equal(object.common.write, false);
+            assert.deepEqual(object.common.custom, { 'history.0': {} });
+            assert.equal(db.states.get(`${ns}.devices.count`)?.val, 12, 'the default does not replace a value');
+        });
+
+        it('removes the objects that are not declared anymore but keeps the built-in objects', async () => {
+            const db = new TestDatabase();
+            for (const id of ['old', 'old.value', 'devices.removed', 'info.status', 'metrics.uploads', 'connection']) {
+                db.objects.set(`${ns}.${id}`, {
+                    _id: `${ns}.${id}`,
+                    type: 'state',
+                    common: {},
+                    native: {},
+                } as ioBroker.Object);
+                db.seedState(`${ns}.${id}`, 1);
+            }
+
+            const { log } = await initObjectsPlugin('objects', db);
+
+            for (const id of ['old', 'old.value', 'devices.removed']) {
+                assert.equal(db.objects.has(`${ns}.${id}`), false, `${id} is removed`);
+                assert.equal(db.states.has(`${ns}.${id}`), false, `the state of ${id} is removed`);
+            }
+            for (const id of ['info.status', 'metrics.uploads', 'enabled', 'logLevel', 'devices.count', 'connection']) {
+                assert.ok(db.objects.has(`${ns}.${id}`), `${id} is kept`);
+            }
+            assert.ok(log.has('info', 'Plugin objects Remove stale object old.value'));
+        });
+
+        it('uses the objects of the manifest and keeps other objects by default', async () => {
+            const db = new TestDatabase();
+            const other = 'system.adapter.test.0.plugins.manifestobjects.other';
+            db.objects.set(other, { _id: other, type: 'state', common: {}, native: {} } as ioBroker.Object);
+
+            await initObjectsPlugin('manifestobjects', db);
+
+            assert.equal(db.states.get('system.adapter.test.0.plugins.manifestobjects.status')?.val, 'ok');
+            assert.ok(db.objects.has(other));
+        });
+
+        it('neither creates nor removes objects if a declaration is invalid', async () => {
+            const { instance, db, log } = await initObjectsPlugin('invalidobjects');
+
+            assert.equal(db.objects.has('system.adapter.test.0.plugins.invalidobjects.valid'), false);
+            assert.ok(log.has('warn', 'Invalid object definition {"_id":"invalid","type":"adapter"}'));
+            assert.equal(instance.isActive, true, 'the plugin is initialized anyway');
+        });
+    });
+
     describe('database access', () => {
         it('reads and writes states and objects', async () => {
             const { instance, db } = await initPlugin({});
@@ -170,7 +481,7 @@ describe('PluginBase', () => {
                 `${PLUGIN_NAMESPACE}.value`,
             );
             assert.equal((await instance.getState(`${PLUGIN_NAMESPACE}.value`))?.val, 42);
-            assert.equal(await instance.getState('does.not.exist'), null);
+            assert.equal(await instance.getState(`${PLUGIN_NAMESPACE}.does.not.exist`), null);
 
             const object = {
                 type: 'state',
@@ -194,6 +505,107 @@ describe('PluginBase', () => {
             assert.equal((folder?.common as Record<string, any>).desc, 'added later');
         });
 
+        it('reads and writes several states with one request', async () => {
+            const { instance, db } = await initPlugin({});
+
+            await instance.setStates({
+                [`${PLUGIN_NAMESPACE}.devices.a`]: { val: 1, ack: true },
+                [`${PLUGIN_NAMESPACE}.devices.b`]: { val: 2, ack: true },
+            });
+            db.calls.length = 0;
+
+            const byPattern = await instance.getStates(`${PLUGIN_NAMESPACE}.devices.*`);
+            assert.deepEqual(
+                Object.entries(byPattern).map(([id, state]) => [id, state?.val]),
+                [
+                    [`${PLUGIN_NAMESPACE}.devices.a`, 1],
+                    [`${PLUGIN_NAMESPACE}.devices.b`, 2],
+                ],
+            );
+            assert.deepEqual(
+                db.calls.map(call => call.method),
+                ['getKeys', 'getStates'],
+                'the states are read with one request',
+            );
+
+            const byIds = await instance.getStates([`${PLUGIN_NAMESPACE}.devices.b`, `${PLUGIN_NAMESPACE}.missing`]);
+            assert.equal(byIds[`${PLUGIN_NAMESPACE}.devices.b`]?.val, 2);
+            assert.equal(byIds[`${PLUGIN_NAMESPACE}.missing`], null);
+        });
+
+        it('reads several objects and the objects of a type', async () => {
+            const { instance } = await initPlugin({});
+            const common = { name: 'Device', type: 'number', role: 'value', read: true, write: false };
+            await instance.setObject(`${PLUGIN_NAMESPACE}.devices`, {
+                type: 'channel',
+                common: {},
+                native: {},
+            } as ioBroker.Object);
+            await instance.setObject(`${PLUGIN_NAMESPACE}.devices.a`, {
+                type: 'state',
+                common,
+                native: {},
+            } as ioBroker.Object);
+
+            const objects = await instance.getObjects(`${PLUGIN_NAMESPACE}.devices*`);
+            assert.deepEqual(Object.keys(objects), [`${PLUGIN_NAMESPACE}.devices`, `${PLUGIN_NAMESPACE}.devices.a`]);
+            const byIds = await instance.getObjects([`${PLUGIN_NAMESPACE}.devices.a`, `${PLUGIN_NAMESPACE}.missing`]);
+            assert.deepEqual(Object.keys(byIds), [`${PLUGIN_NAMESPACE}.devices.a`], 'missing objects are left out');
+
+            const states = await instance.getObjectView('state');
+            assert.ok(states[`${PLUGIN_NAMESPACE}.devices.a`]);
+            assert.ok(states[`${PLUGIN_NAMESPACE}.enabled`], 'the states of the plugin itself are included');
+            assert.equal(states[`${PLUGIN_NAMESPACE}.devices`], undefined, 'other types are not included');
+            assert.deepEqual(Object.keys(await instance.getObjectView('channel', `${PLUGIN_NAMESPACE}.devices`)), []);
+        });
+
+        it('deletes states and objects, recursively if requested', async () => {
+            const { instance, db } = await initPlugin({});
+            for (const id of ['devices', 'devices.a', 'devices.a.power', 'devicesOther']) {
+                await instance.setObject(`${PLUGIN_NAMESPACE}.${id}`, {
+                    type: 'state',
+                    common: {},
+                    native: {},
+                } as ioBroker.Object);
+                await instance.setState(`${PLUGIN_NAMESPACE}.${id}`, { val: 1, ack: true });
+            }
+
+            assert.deepEqual(await instance.delState(`${PLUGIN_NAMESPACE}.devices`), [`${PLUGIN_NAMESPACE}.devices`]);
+            assert.ok(db.states.has(`${PLUGIN_NAMESPACE}.devices.a`), 'not recursive by default');
+
+            assert.deepEqual(await instance.delObject(`${PLUGIN_NAMESPACE}.devices`, { recursive: true }), [
+                `${PLUGIN_NAMESPACE}.devices.a.power`,
+                `${PLUGIN_NAMESPACE}.devices.a`,
+                `${PLUGIN_NAMESPACE}.devices`,
+            ]);
+            await instance.delState(`${PLUGIN_NAMESPACE}.devices`, { recursive: true });
+
+            assert.equal(db.objects.has(`${PLUGIN_NAMESPACE}.devices.a`), false);
+            assert.equal(db.states.has(`${PLUGIN_NAMESPACE}.devices.a.power`), false);
+            assert.ok(db.objects.has(`${PLUGIN_NAMESPACE}.devicesOther`), 'siblings are kept');
+            assert.ok(db.states.has(`${PLUGIN_NAMESPACE}.devicesOther`));
+        });
+
+        it('checks the permissions of every id of a batch before it accesses the database', async () => {
+            const { instance, db, log } = await initPlugin({});
+
+            await assert.rejects(
+                () =>
+                    instance.setStates({
+                        [`${PLUGIN_NAMESPACE}.allowed`]: { val: 1 },
+                        'system.adapter.admin.0.alive': { val: false },
+                    }),
+                { message: 'Plugin is not allowed to write "system.adapter.admin.0.alive"' },
+            );
+            assert.equal(db.states.has(`${PLUGIN_NAMESPACE}.allowed`), false, 'nothing of the batch is written');
+            await assert.rejects(() => instance.getStates('system.*'), {
+                message: 'Plugin is not allowed to read "system.*"',
+            });
+            await assert.rejects(() => instance.delObject('system.adapter.admin.0', { recursive: true }));
+            await assert.rejects(() => instance.getObjectView('state', 'system.adapter.admin.0'));
+            assert.ok(log.has('warn', 'Denied write access to "system.adapter.admin.0"'));
+        });
+
         it('rejects every database access while no database is set', async () => {
             const { settings } = createTestHandler();
             const plugin = new PluginBase({
@@ -220,16 +632,284 @@ describe('PluginBase', () => {
             await assert.rejects(() => plugin.extendObject('any.id', {}), {
                 message: 'Objects Database not initialized.',
             });
+            await assert.rejects(() => plugin.getStates('any.*'), { message: 'States Database not initialized.' });
+            await assert.rejects(() => plugin.getObjects('any.*'), { message: 'Objects Database not initialized.' });
             await assert.rejects(() => plugin.init({}), { message: 'Not implemented' });
             assert.equal(await plugin.destroy(), true);
         });
     });
 
+    describe('permissions', () => {
+        /**
+         * Initialize a plugin with permissions from its manifest
+         *
+         * @param config plugin configuration
+         */
+        async function initPermittedPlugin(
+            config: Record<string, any>,
+        ): Promise<{ instance: PluginBase; db: TestDatabase; log: TestLogger }> {
+            const context = createTestHandler();
+            context.handler.addPlugins({ permitted: config }, fixtures.dir);
+            context.handler.setDatabaseForPlugins(context.db.objectsDb, context.db.statesDb);
+            await context.handler.initPlugins(createIoPackage());
+
+            return { instance: context.handler.getPluginInstance('permitted')!, db: context.db, log: context.log };
+        }
+
+        it('rejects and logs writes outside the plugin namespace', async () => {
+            const { instance, db, log } = await initPlugin({});
+
+            await assert.rejects(() => instance.setState('system.adapter.test.0.alive', { val: false }), {
+                message: 'Plugin is not allowed to write "system.adapter.test.0.alive"',
+            });
+            await assert.rejects(() => instance.setObject('system.config', {} as ioBroker.Object), {
+                message: 'Plugin is not allowed to write "system.config"',
+            });
+            await assert.rejects(() => instance.extendObject('system.adapter.test.0', {}), {
+                message: 'Plugin is not allowed to write "system.adapter.test.0"',
+            });
+            await assert.rejects(() => instance.getState('system.adapter.test.0.alive'), {
+                message: 'Plugin is not allowed to read "system.adapter.test.0.alive"',
+            });
+            assert.equal(db.idsFor('setState').includes('system.adapter.test.0.alive'), false);
+            assert.ok(
+                log.has(
+                    'warn',
+                    'Denied write access to "system.adapter.test.0.alive", because it is outside of the plugin namespace',
+                ),
+            );
+        });
+
+        it('does not treat ids that only start like the plugin namespace as inside of it', async () => {
+            const { instance } = await initPlugin({});
+
+            await assert.rejects(() => instance.setState(`${PLUGIN_NAMESPACE}2.value`, { val: 1 }), {
+                message: `Plugin is not allowed to write "${PLUGIN_NAMESPACE}2.value"`,
+            });
+        });
+
+        it('allows the ids declared in the manifest', async () => {
+            const { instance, db } = await initPermittedPlugin({});
+            db.seedState('system.config', 'config');
+
+            assert.equal((await instance.getState('system.config'))?.val, 'config');
+            await instance.setState('0_userdata.0.permitted.value', { val: 1 });
+            assert.equal((await instance.getState('0_userdata.0.permitted.value'))?.val, 1, 'write allows to read');
+            await assert.rejects(() => instance.setState('system.config', { val: 'changed' }), {
+                message: 'Plugin is not allowed to write "system.config"',
+            });
+        });
+
+        it('adds the permissions of the configuration to the ones of the manifest', async () => {
+            const { instance } = await initPermittedPlugin({ permissions: { write: ['0_userdata.0.configured'] } });
+
+            await instance.setState('0_userdata.0.configured', { val: 1 });
+            await instance.setState('0_userdata.0.permitted.value', { val: 1 });
+        });
+
+        it('deletes nothing recursively if an id below the permitted one is denied', async () => {
+            const { instance, db } = await initPermittedPlugin({ permissions: { write: ['0_userdata.0.x'] } });
+            for (const id of ['0_userdata.0.x', '0_userdata.0.x.secret']) {
+                db.objects.set(id, { _id: id, type: 'state', common: {}, native: {} } as ioBroker.Object);
+                db.seedState(id, 1);
+            }
+
+            await assert.rejects(() => instance.delState('0_userdata.0.x', { recursive: true }), {
+                message: 'Plugin is not allowed to write "0_userdata.0.x.secret"',
+            });
+            await assert.rejects(() => instance.delObject('0_userdata.0.x', { recursive: true }), {
+                message: 'Plugin is not allowed to write "0_userdata.0.x.secret"',
+            });
+            assert.ok(db.states.has('0_userdata.0.x'), 'the permitted id is kept as well');
+            assert.ok(db.states.has('0_userdata.0.x.secret'));
+            assert.ok(db.objects.has('0_userdata.0.x'));
+            assert.ok(db.objects.has('0_userdata.0.x.secret'));
+        });
+    });
+
+    describe('managed resources', () => {
+        /** Static members of the resources fixture */
+        interface ResourcesPlugin extends PluginBase {
+            ticks: number;
+            released: string[];
+            refuseDestroy?: boolean;
+        }
+
+        /**
+         * Initialize the resources fixture through a handler
+         *
+         * @param config plugin configuration
+         */
+        async function initResourcesPlugin(
+            config: Record<string, any>,
+        ): Promise<ReturnType<typeof createTestHandler> & { instance: ResourcesPlugin }> {
+            const context = createTestHandler();
+            context.handler.addPlugins({ resources: config }, fixtures.dir);
+            context.handler.setDatabaseForPlugins(context.db.objectsDb, context.db.statesDb);
+            await context.handler.initPlugins(createIoPackage());
+            return { ...context, instance: context.handler.getPluginInstance<ResourcesPlugin>('resources')! };
+        }
+
+        it('clears the timers and releases the resources in reverse order after destroy()', async () => {
+            const { handler, instance } = await initResourcesPlugin({ timeout: 5, interval: 5 });
+            await delay(30);
+            assert.ok(instance.ticks > 0, 'the timers run while the plugin is active');
+
+            await handler.destroy('resources');
+            const ticks = instance.ticks;
+            await delay(20);
+
+            assert.equal(instance.ticks, ticks, 'no timer runs after destroy()');
+            assert.deepEqual(instance.released, ['async disposable', 'disposable', 'function']);
+        });
+
+        it('releases the resources when the initialization failed', async () => {
+            const { instance, log } = await initResourcesPlugin({ failInit: true });
+
+            assert.equal(instance.status, 'failed');
+            assert.deepEqual(instance.released, ['async disposable', 'disposable', 'function']);
+            assert.ok(log.has('error', 'Failed to initialize plugin: init failed after allocating resources'));
+        });
+
+        it('releases the resources when the handler forces the destruction', async () => {
+            const { handler, instance } = await initResourcesPlugin({});
+            instance.refuseDestroy = true;
+
+            assert.equal(await handler.destroy('resources'), false);
+            assert.deepEqual(instance.released, [], 'a plugin that is not destroyed keeps its resources');
+            assert.equal(await handler.destroy('resources', true), true);
+            assert.deepEqual(instance.released, ['async disposable', 'disposable', 'function']);
+        });
+
+        it('clears single timers and logs failing timer callbacks', async () => {
+            const { handler, instance, log } = await initResourcesPlugin({});
+            let fired = false;
+
+            instance.clearTimeout(
+                instance.setTimeout(() => {
+                    fired = true;
+                }, 5),
+            );
+            instance.setTimeout(() => Promise.reject(new Error('callback failed on purpose')), 5);
+            await delay(20);
+
+            assert.equal(fired, false);
+            assert.ok(log.has('error', 'Timer callback failed: callback failed on purpose'));
+            await handler.destroyAll();
+        });
+    });
+
     describe('logging', () => {
         it('prefixes the plugin log with handler namespace and plugin name', async () => {
             const { log } = await initPlugin({});
 
             assert.ok(log.messages('info').includes('test.0 Plugin simple initialized'));
         });
+
+        it('renders structured fields after the message', async () => {
+            const { instance, log } = await initPlugin({});
+
+            instance.log.info('sent', { count: 3, target: 'living room', ok: true, ids: ['a', 'b'] });
+
+            assert.ok(
+                log
+                    .messages('info')
+                    .includes('test.0 Plugin simple sent count=3 target="living room" ok=true ids=["a","b"]'),
+            );
+        });
+
+        it('adds the component and the fields of child loggers', async () => {
+            const { instance, log } = await initPlugin({});
+
+            const child = instance.log.child({ component: 'uploader', requestId: 7 }).child({ component: 'chunk' });
+            child.warn('retry', { attempt: 2 });
+
+            assert.ok(
+                log.messages('warn').includes('test.0 Plugin simple [uploader] [chunk] retry requestId=7 attempt=2'),
+            );
+            assert.equal(child.level, 'silly', 'the level of the parent logger is passed through');
+        });
+
+        it('renders errors with their stack and causes', async () => {
+            const { instance, log } = await initPlugin({});
+            const error = Object.assign(new Error('upload failed'), { cause: new TypeError('socket closed') });
+
+            instance.log.error('Cannot upload', error);
+
+            const [message] = log.messages('error');
+            const lines = message.split('\n');
+            assert.equal(lines[0], 'test.0 Plugin simple Cannot upload: upload failed');
+            assert.equal(lines[1], 'Error: upload failed');
+            assert.match(lines[2], /^\s+at /);
+            assert.ok(lines.includes('Caused by: TypeError: socket closed'));
+        });
+    });
+
+    describe('metrics', () => {
+        it('writes the metrics to states and creates their objects on demand', async () => {
+            const { instance, db } = await initPlugin({});
+            assert.equal(db.objects.has(`${PLUGIN_NAMESPACE}.metrics`), false, 'no objects without metrics');
+
+            const uploads = instance.metrics.counter('uploads');
+            uploads.inc();
+            uploads.inc(2);
+            instance.metrics.gauge('queueLength', { unit: 'items' }).set(5);
+            const latency = instance.metrics.histogram('latencyMs', { unit: 'ms', description: 'Latency of requests' });
+            latency.observe(10);
+            latency.observe(30);
+            await instance.metrics.flush();
+
+            assert.equal(db.objects.get(`${PLUGIN_NAMESPACE}.metrics`)?.type, 'channel');
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.metrics.uploads`)?.val, 3);
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.metrics.uploads`)?.ack, true);
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.metrics.queueLength`)?.val, 5);
+            assert.equal(db.objects.get(`${PLUGIN_NAMESPACE}.metrics.queueLength`)?.common.unit, 'items');
+            assert.equal(db.objects.get(`${PLUGIN_NAMESPACE}.metrics.latencyMs`)?.type, 'channel');
+            for (const [state, val] of Object.entries({ count: 2, sum: 40, min: 10, max: 30, avg: 20 })) {
+                assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.metrics.latencyMs.${state}`)?.val, val, state);
+            }
+            assert.equal(db.objects.get(`${PLUGIN_NAMESPACE}.metrics.latencyMs.max`)?.common.unit, 'ms');
+            assert.equal(db.objects.get(`${PLUGIN_NAMESPACE}.metrics.latencyMs.max`)?.common.write, false);
+        });
+
+        it('writes only the metrics that changed since the last flush', async () => {
+            const { instance, db } = await initPlugin({});
+            instance.metrics.counter('uploads').inc();
+            instance.metrics.gauge('queueLength').set(1);
+            await instance.metrics.flush();
+            const writes = db.idsFor('setState').length;
+
+            instance.metrics.counter('uploads').inc();
+            await instance.metrics.flush();
+
+            assert.deepEqual(db.idsFor('setState').slice(writes), [`${PLUGIN_NAMESPACE}.metrics.uploads`]);
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.metrics.uploads`)?.val, 2);
+        });
+
+        it('writes the metrics periodically and when the plugin is destroyed', async () => {
+            const { handler, db } = createTestHandler({ settings: { metricsInterval: 20 } });
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance('simple')!;
+
+            instance.metrics.gauge('queueLength').set(3);
+            await delay(60);
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.metrics.queueLength`)?.val, 3);
+
+            instance.metrics.gauge('queueLength').set(4);
+            await handler.destroyAll();
+            assert.equal(db.states.get(`${PLUGIN_NAMESPACE}.metrics.queueLength`)?.val, 4);
+        });
+
+        it('rejects invalid names and metrics of another type with the same name', async () => {
+            const { instance } = await initPlugin({});
+            instance.metrics.counter('uploads');
+
+            assert.throws(() => instance.metrics.gauge('uploads'), /Metric uploads is a counter, not a gauge/);
+            assert.throws(() => instance.metrics.counter('uploads.total'), /Invalid metric name "uploads.total"/);
+            assert.throws(() => instance.metrics.counter('uploads').inc(-1), /cannot be decreased/);
+            assert.equal(instance.metrics.counter('uploads'), instance.metrics.counter('uploads'));
+        });
     });
 });
@@ -1,7 +1,15 @@
 import assert from 'node:assert/strict';
+import { once } from 'node:events';
 import { after, before, describe, it } from 'node:test';
-
-import { PluginBase } from '../../build/cjs/index.js';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import {
+    PluginBase,
+    type PluginHandler,
+    type PluginHandlerEvents,
+    type PluginErrorContext,
+    type PluginHandlerSettings,
+} from '../../build/cjs/index.js';
 import { installPluginFixtures, type PluginFixtures } from './lib/pluginFixtures.js';
 import { createIoPackage, createTestHandler } from './lib/testHandler.js';
 
@@ -9,6 +17,48 @@ import { createIoPackage, createTestHandler } from './lib/testHandler.js';
 interface RecordingPlugin extends PluginBase {
     initCalls?: Record<string, any>[];
     destroyCalls?: number;
+    initSignals?: AbortSignal[];
+    destroySignals?: AbortSignal[];
+    stateChanges?: { id: string; val: ioBroker.StateValue }[];
+    objectChanges?: { id: string; type: string | null }[];
+    consumed?: GreetingService;
+    initAttempts?: number;
+    disposed?: number[];
+}
+
+/** The service the provider fixture provides */
+interface GreetingService {
+    greet: (name: string) => string;
+}
+
+/** Static members of the slow fixture, which records the initializations of all its instances */
+interface SlowPluginClass {
+    log: string[];
+    maxRunning: number;
+    reset: () => void;
+}
+
+/**
+ * Record the lifecycle events of a handler as `<event> <plugin>` and add the error message if there is one
+ *
+ * @param handler the handler to listen to
+ */
+function recordEvents(handler: PluginHandler): string[] {
+    const events: string[] = [];
+    const names: (keyof PluginHandlerEvents)[] = [
+        'instantiated',
+        'resolveFailed',
+        'initialized',
+        'initFailed',
+        'activated',
+        'deactivated',
+        'destroyed',
+        'destroyFailed',
+    ];
+    for (const event of names) {
+        handler.on(event, ({ name, error }) => events.push(`${event} ${name}${error ? `: ${error.message}` : ''}`));
+    }
+    return events;
 }
 
 describe('PluginHandler', () => {
@@ -24,6 +74,66 @@ describe('PluginHandler', () => {
             failingconstructor: 'failingConstructor.js',
             undestroyable: 'undestroyable.js',
             throwing: 'throwingModule.js',
+            esmonly: 'esmOnly.mjs',
+            throwingesm: 'throwingModule.mjs',
+            reloadable: 'simple.js',
+            reloadbroken: 'simple.js',
+            hanging: 'hanging.js',
+            subscriber: 'subscriber.js',
+            secondsubscriber: 'subscriber.js',
+            provider: 'provider.js',
+            secondprovider: 'provider.js',
+            consumer: 'consumer.js',
+            reloadableesm: 'esmOnly.mjs',
+            app: {
+                fixture: 'simple.js',
+                packageJson: { iobrokerPlugin: { dependencies: ['database'], optionalDependencies: ['cache'] } },
+            },
+            database: 'simple.js',
+            cache: 'simple.js',
+            cyclea: { fixture: 'simple.js', packageJson: { iobrokerPlugin: { dependencies: ['cycleb'] } } },
+            cycleb: { fixture: 'simple.js', packageJson: { iobrokerPlugin: { dependencies: ['cyclea'] } } },
+            needsfailing: { fixture: 'simple.js', packageJson: { iobrokerPlugin: { dependencies: ['failinginit'] } } },
+            needsmissing: { fixture: 'simple.js', packageJson: { iobrokerPlugin: { dependencies: ['missing'] } } },
+            flaky: 'flaky.js',
+            lateinit: 'lateInit.js',
+            isolated: 'isolated.js',
+            schema: 'schema.js',
+            validschema: 'schema.js',
+            objects: 'objects.js',
+            slowa: 'slow.js',
+            slowb: 'slow.js',
+            slowc: 'slow.js',
+            slowapp: { fixture: 'slow.js', packageJson: { iobrokerPlugin: { dependencies: ['slowa'] } } },
+            compatible: {
+                fixture: 'simple.js',
+                packageJson: {
+                    iobrokerPlugin: {
+                        scopes: ['adapter'],
+                        controllerVersion: '>=7.0.0',
+                        pluginBaseVersion: '>=4.0.0',
+                        parents: { 'iobroker.test': '^1.0.0' },
+                    },
+                },
+            },
+            controlleronly: {
+                fixture: 'throwingModule.js',
+                packageJson: { iobrokerPlugin: { scopes: ['controller'] } },
+            },
+            controlleronlyesm: {
+                fixture: 'throwingModule.mjs',
+                packageJson: { iobrokerPlugin: { scopes: ['controller'] } },
+            },
+            newcontroller: { fixture: 'simple.js', packageJson: { iobrokerPlugin: { controllerVersion: '>=99.0.0' } } },
+            newbase: { fixture: 'simple.js', packageJson: { iobrokerPlugin: { pluginBaseVersion: '>=99.0.0' } } },
+            otherparent: {
+                fixture: 'simple.js',
+                packageJson: { iobrokerPlugin: { parents: { 'iobroker.other': '' } } },
+            },
+            oldparent: {
+                fixture: 'simple.js',
+                packageJson: { iobrokerPlugin: { parents: { 'iobroker.test': '>=2.0.0' } } },
+            },
         });
     });
 
@@ -138,6 +248,146 @@ describe('PluginHandler', () => {
         );
     });
 
+    it('loads an ESM-only plugin via import()', async () => {
+        const { handler, db } = createTestHandler();
+
+        await handler.addPluginsAsync({ esmonly: { custom: 'value' } }, fixtures.dir);
+        handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+        const instance = handler.getPluginInstance<RecordingPlugin>('esmonly')!;
+
+        assert.ok(instance instanceof PluginBase, 'the default export is unwrapped');
+        assert.equal(instance.pluginNamespace, 'system.adapter.test.0.plugins.esmonly');
+
+        await handler.initPlugins(createIoPackage());
+
+        assert.equal(handler.isPluginActive('esmonly'), true);
+        assert.deepEqual(instance.initCalls, [{ custom: 'value', enabled: true }]);
+    });
+
+    it('cannot resolve an ESM-only plugin via require()', () => {
+        const { handler, log } = createTestHandler();
+
+        handler.addPlugins({ esmonly: {} }, fixtures.dir);
+
+        assert.equal(handler.pluginExists('esmonly'), false);
+        assert.ok(log.has('error', 'Plugin esmonly could not be resolved'));
+    });
+
+    it('loads CommonJS plugins via import() as well', async () => {
+        const { handler } = createTestHandler();
+
+        await handler.addPluginsAsync({ simple: {}, defaultexport: {} }, [fixtures.dir, '/js-controller/dir']);
+
+        assert.ok(handler.getPluginInstance('simple') instanceof PluginBase);
+        assert.ok(handler.getPluginInstance('defaultexport') instanceof PluginBase);
+        assert.equal(handler.getPluginInstance('simple')!.settings.adapterDir, fixtures.dir);
+    });
+
+    it('reports resolve and import errors of the async path like the sync one', async () => {
+        const { handler, log } = createTestHandler();
+
+        await handler.addPluginsAsync({ doesnotexist: {}, throwingesm: {}, failingconstructor: {} }, fixtures.dir);
+
+        assert.equal(handler.pluginExists('doesnotexist'), false);
+        assert.ok(log.has('error', 'Plugin doesnotexist could not be resolved'));
+        assert.equal(handler.pluginExists('throwingesm'), false);
+        assert.ok(log.has('error', 'Plugin throwingesm could not be imported: this plugin cannot be imported'));
+        assert.equal(handler.isPluginInstantiated('failingconstructor'), false);
+        assert.ok(
+            log.has('error', 'Plugin failingconstructor could not be initialized: constructor failed on purpose'),
+        );
+    });
+
+    it('ignores a duplicate registration via the async path', async () => {
+        const { handler, log } = createTestHandler();
+
+        handler.addPlugins({ simple: { first: true } }, fixtures.dir);
+        await handler.addPluginsAsync({ simple: { second: true } }, fixtures.dir);
+
+        assert.deepEqual(handler.getPluginConfig('simple'), { first: true });
+        assert.ok(log.has('info', 'Ignore duplicate plugin simple'));
+    });
+
+    it('loads a plugin whose manifest matches the environment', () => {
+        const { handler } = createTestHandler();
+
+        handler.addPlugins({ compatible: {} }, fixtures.dir);
+
+        assert.equal(handler.isPluginInstantiated('compatible'), true);
+        assert.equal(handler.getPluginIncompatibility('compatible'), null);
+        assert.deepEqual(handler.getPluginInstance('compatible')!.pluginPackage.iobrokerPlugin.scopes, ['adapter']);
+    });
+
+    it('refuses a plugin for another scope before its code is loaded', () => {
+        const { handler, log } = createTestHandler();
+
+        handler.addPlugins({ controlleronly: { some: 'config' } }, fixtures.dir);
+
+        assert.equal(handler.pluginExists('controlleronly'), true);
+        assert.equal(handler.isPluginInstantiated('controlleronly'), false);
+        assert.deepEqual(handler.getPluginConfig('controlleronly'), { some: 'config' });
+        assert.deepEqual(handler.getPluginIncompatibility('controlleronly'), {
+            reason: 'scope',
+            required: 'controller',
+            actual: 'adapter',
+            message: 'only supports the scope(s) "controller", but is used in scope "adapter"',
+        });
+        assert.ok(
+            log.has(
+                'warn',
+                'Plugin controlleronly is not compatible and will not be loaded: only supports the scope(s) "controller"',
+            ),
+        );
+        assert.equal(log.has('error', 'could not be required'), false, 'the module was never required');
+    });
+
+    it('refuses an incompatible plugin via the async path as well', async () => {
+        const { handler, log } = createTestHandler();
+
+        await handler.addPluginsAsync({ controlleronlyesm: {} }, fixtures.dir);
+
+        assert.equal(handler.getPluginIncompatibility('controlleronlyesm')?.reason, 'scope');
+        assert.equal(log.has('error', 'could not be imported'), false, 'the module was never imported');
+    });
+
+    it('refuses plugins that require other versions or parents', () => {
+        const { handler } = createTestHandler();
+
+        handler.addPlugins({ newcontroller: {}, newbase: {}, otherparent: {}, oldparent: {} }, fixtures.dir);
+
+        assert.deepEqual(handler.getPluginIncompatibility('newcontroller'), {
+            reason: 'controllerVersion',
+            required: '>=99.0.0',
+            actual: '7.2.2',
+            message: 'requires js-controller >=99.0.0, but 7.2.2 is installed',
+        });
+        assert.equal(handler.getPluginIncompatibility('newbase')?.reason, 'pluginBaseVersion');
+        assert.deepEqual(handler.getPluginIncompatibility('otherparent'), {
+            reason: 'parent',
+            required: 'iobroker.other',
+            actual: 'iobroker.test',
+            message: 'can only be used in iobroker.other, but is used in iobroker.test',
+        });
+        assert.deepEqual(handler.getPluginIncompatibility('oldparent'), {
+            reason: 'parent',
+            required: 'iobroker.test@>=2.0.0',
+            actual: 'iobroker.test@1.2.3',
+            message: 'requires iobroker.test >=2.0.0, but 1.2.3 is used',
+        });
+        for (const name of ['newcontroller', 'newbase', 'otherparent', 'oldparent']) {
+            assert.equal(handler.isPluginInstantiated(name), false, `${name} must not be instantiated`);
+        }
+    });
+
+    it('checks the manifest against the controller scope as well', () => {
+        const { handler } = createTestHandler({ scope: 'controller', namespace: 'system.host.testhost' });
+
+        handler.addPlugins({ newbase: {}, compatible: {} }, fixtures.dir);
+
+        assert.equal(handler.getPluginIncompatibility('compatible')?.reason, 'scope');
+        assert.equal(handler.getPluginIncompatibility('newbase')?.reason, 'pluginBaseVersion');
+    });
+
     it('returns null and no config for unknown plugins', () => {
         const { handler } = createTestHandler();
 
@@ -152,7 +402,7 @@ describe('PluginHandler', () => {
 
         handler.addPlugins({ simple: { custom: 'value' } }, fixtures.dir);
         handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
-        const instance = handler.getPluginInstance('simple') as RecordingPlugin;
+        const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
 
         await handler.initPlugins(createIoPackage());
 
@@ -167,6 +417,23 @@ describe('PluginHandler', () => {
         assert.equal(db.states.get('system.adapter.test.0.plugins.simple.enabled')?.val, false);
     });
 
+    it('returns instance and configuration with the type the caller expects', async () => {
+        const { handler, db } = createTestHandler();
+
+        handler.addPlugins({ simple: { custom: 'value' } }, fixtures.dir);
+        handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+        await handler.initPlugins(createIoPackage());
+
+        const config = handler.getPluginConfig<{ custom: string }>('simple');
+        const custom: string | undefined = config?.custom;
+        const enabled: boolean | undefined = config?.enabled;
+        assert.equal(custom, 'value');
+        assert.equal(enabled, true, 'the enabled flag is part of every configuration');
+
+        const instance = handler.getPluginInstance<RecordingPlugin>('simple');
+        assert.equal(instance?.initCalls?.length, 1);
+    });
+
     it('sets the database for a single plugin only', () => {
         const { handler, db } = createTestHandler();
 
@@ -218,7 +485,7 @@ describe('PluginHandler', () => {
         handler.addPlugins({ undestroyable: {} }, fixtures.dir);
         handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
         await handler.initPlugins(createIoPackage());
-        const instance = handler.getPluginInstance('undestroyable') as RecordingPlugin;
+        const instance = handler.getPluginInstance<RecordingPlugin>('undestroyable')!;
 
         assert.equal(await handler.destroy('undestroyable'), false);
         assert.equal(instance.destroyCalls, 1);
@@ -247,6 +514,1512 @@ describe('PluginHandler', () => {
         assert.equal(handler.isPluginInstantiated('undestroyable'), false);
     });
 
+    describe('enabled state', () => {
+        const ENABLED_ID = 'system.adapter.test.0.plugins.simple.enabled';
+
+        it('subscribes the enabled state after initialization and unsubscribes on destroy', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+            assert.ok(db.stateSubscriptions.has(ENABLED_ID));
+
+            await handler.destroy('simple');
+            assert.equal(db.stateSubscriptions.has(ENABLED_ID), false);
+        });
+
+        it('destroys the plugin when the enabled state is set to false', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            await handler.handleStateChange(ENABLED_ID, await db.userWrite(ENABLED_ID, false));
+
+            assert.equal(instance.destroyCalls, 1);
+            assert.equal(handler.isPluginActive('simple'), false);
+            assert.equal(handler.isPluginInstantiated('simple'), true, 'the plugin can be enabled again');
+            assert.equal(db.states.get(ENABLED_ID)?.val, false);
+            assert.equal(db.states.get(ENABLED_ID)?.ack, true, 'the new value is acknowledged');
+            assert.ok(log.has('info', 'Plugin simple disabled'));
+        });
+
+        it('initializes a disabled plugin when the enabled state is set to true', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: { enabled: false, custom: 'value' } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+            assert.deepEqual(instance.initCalls, []);
+
+            await handler.handleStateChange(ENABLED_ID, await db.userWrite(ENABLED_ID, true));
+
+            assert.deepEqual(instance.initCalls, [{ enabled: true, custom: 'value' }]);
+            assert.equal(handler.isPluginActive('simple'), true);
+            assert.equal(db.states.get(ENABLED_ID)?.val, true);
+            assert.equal(db.states.get(ENABLED_ID)?.ack, true);
+        });
+
+        it('can disable and enable a plugin again and again', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            // the changes are not awaited one by one, they must be processed in order anyway
+            await Promise.all([
+                handler.handleStateChange(ENABLED_ID, { ...(await db.userWrite(ENABLED_ID, false)) }),
+                handler.handleStateChange(ENABLED_ID, { ...(await db.userWrite(ENABLED_ID, true)) }),
+                handler.handleStateChange(ENABLED_ID, { ...(await db.userWrite(ENABLED_ID, false)) }),
+            ]);
+
+            assert.equal(instance.initCalls?.length, 2);
+            assert.equal(instance.destroyCalls, 2);
+            assert.equal(handler.isPluginActive('simple'), false);
+            assert.equal(db.states.get(ENABLED_ID)?.ack, true);
+        });
+
+        it('keeps a plugin active that refuses to be disabled', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ undestroyable: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const id = 'system.adapter.test.0.plugins.undestroyable.enabled';
+
+            await handler.handleStateChange(id, await db.userWrite(id, false));
+
+            assert.equal(handler.isPluginActive('undestroyable'), true);
+            assert.equal(db.states.get(id)?.val, true, 'the actual value is acknowledged');
+            assert.equal(db.states.get(id)?.ack, true);
+            assert.ok(log.has('warn', 'Plugin undestroyable could not be disabled'));
+        });
+
+        it('only acknowledges a value that matches the current status', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            await handler.handleStateChange(ENABLED_ID, await db.userWrite(ENABLED_ID, true));
+
+            assert.equal(instance.initCalls?.length, 1, 'the plugin is not initialized twice');
+            assert.equal(db.states.get(ENABLED_ID)?.ack, true);
+        });
+
+        it('ignores acknowledged changes and other states', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            await handler.handleStateChange(ENABLED_ID, { ...(await db.userWrite(ENABLED_ID, false)), ack: true });
+            await handler.handleStateChange('system.adapter.test.0.plugins.other.enabled', {
+                ...(await db.userWrite('system.adapter.test.0.plugins.other.enabled', false)),
+            });
+            await handler.handleStateChange(ENABLED_ID, null);
+
+            assert.equal(instance.destroyCalls, 0);
+            assert.equal(handler.isPluginActive('simple'), true);
+        });
+    });
+
+    describe('log level', () => {
+        const LOG_LEVEL_ID = 'system.adapter.test.0.plugins.simple.logLevel';
+
+        it('filters the messages of a plugin by the log level of its configuration', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ simple: { logLevel: 'warn' } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            instance.log.child({ component: 'worker' }).warn('slow');
+
+            assert.equal(log.has('info', 'Plugin simple initialized'), false);
+            assert.ok(log.has('warn', 'Plugin simple [worker] slow'));
+            assert.equal(instance.log.level, 'warn');
+            assert.equal(db.states.get(LOG_LEVEL_ID)?.val, 'warn');
+            assert.equal(db.states.get(LOG_LEVEL_ID)?.ack, true);
+            assert.equal(db.objects.get(LOG_LEVEL_ID)?.common.write, true);
+            assert.ok(db.stateSubscriptions.has(LOG_LEVEL_ID));
+
+            await handler.destroy('simple');
+            assert.equal(db.stateSubscriptions.has(LOG_LEVEL_ID), false);
+        });
+
+        it('changes the log level when the logLevel state is written', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ simple: { logLevel: 'error' } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            await handler.handleStateChange(LOG_LEVEL_ID, await db.userWrite(LOG_LEVEL_ID, 'debug'));
+            instance.log.debug('details');
+            assert.ok(log.has('debug', 'Plugin simple details'));
+            assert.equal(db.states.get(LOG_LEVEL_ID)?.val, 'debug');
+            assert.equal(db.states.get(LOG_LEVEL_ID)?.ack, true, 'the new value is acknowledged');
+
+            await handler.handleStateChange(LOG_LEVEL_ID, await db.userWrite(LOG_LEVEL_ID, 'verbose'));
+            assert.ok(log.has('warn', 'Invalid log level "verbose"'));
+            assert.equal(db.states.get(LOG_LEVEL_ID)?.val, 'debug', 'an invalid level is rejected');
+
+            await handler.handleStateChange(LOG_LEVEL_ID, await db.userWrite(LOG_LEVEL_ID, ''));
+            assert.equal(instance.log.level, 'silly', 'the level of the parent applies again');
+            assert.equal(db.states.get(LOG_LEVEL_ID)?.val, 'silly');
+        });
+
+        it('writes messages the parent logger would drop with the level of the parent', async () => {
+            const { handler, db, log } = createTestHandler();
+            log.logger.level = 'info';
+            handler.addPlugins({ simple: { logLevel: 'debug' } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            instance.log.debug('details', { id: 1 });
+            instance.log.silly('noise');
+
+            assert.ok(log.messages('info').includes('[debug] test.0 Plugin simple details id=1'));
+            assert.equal(log.has('info', 'noise'), false);
+        });
+    });
+
+    describe('log limits', () => {
+        /**
+         * Initialize the simple fixture with limited log messages
+         *
+         * @param logLimits the limits of the handler
+         */
+        async function initLimited(
+            logLimits: PluginHandlerSettings['logLimits'],
+        ): Promise<ReturnType<typeof createTestHandler> & { instance: RecordingPlugin }> {
+            const context = createTestHandler({ settings: { logLimits } });
+            context.handler.addPlugins({ simple: {} }, fixtures.dir);
+            context.handler.setDatabaseForPlugins(context.db.objectsDb, context.db.statesDb);
+            await context.handler.initPlugins(createIoPackage());
+            return { ...context, instance: context.handler.getPluginInstance<RecordingPlugin>('simple')! };
+        }
+
+        it('collapses identical consecutive messages', async () => {
+            const { instance, log } = await initLimited({});
+
+            for (let i = 0; i < 5; i++) {
+                instance.log.error('Cannot connect', { host: 'db' });
+            }
+            instance.log.info('connected');
+
+            assert.deepEqual(log.messages('error'), [
+                'test.0 Plugin simple Cannot connect host=db',
+                'test.0 Plugin simple last message repeated 4 times',
+            ]);
+            assert.ok(log.messages('info').includes('test.0 Plugin simple connected'));
+        });
+
+        it('limits the messages per level and reports the suppressed ones when the plugin is destroyed', async () => {
+            const { handler, instance, log } = await initLimited({
+                rates: { warn: { perSecond: 0.001, burst: 2 } },
+                summaryInterval: 0,
+            });
+
+            for (let i = 0; i < 5; i++) {
+                instance.log.warn(`slow request ${i}`);
+            }
+            instance.log.error('not limited');
+            assert.deepEqual(log.messages('warn'), [
+                'test.0 Plugin simple slow request 0',
+                'test.0 Plugin simple slow request 1',
+            ]);
+            assert.ok(log.has('error', 'not limited'));
+
+            await handler.destroy('simple');
+
+            assert.ok(
+                log.has('warn', 'test.0 Plugin simple 3 messages were suppressed by the log rate limit (warn: 3)'),
+            );
+        });
+
+        it('writes a summary of the suppressed messages periodically', async () => {
+            const { handler, instance, log } = await initLimited({
+                rates: { error: { perSecond: 0.001, burst: 1 } },
+                summaryInterval: 20,
+            });
+
+            instance.log.error('failed');
+            instance.log.error('failed');
+            instance.log.error('failed again');
+            await delay(60);
+
+            assert.deepEqual(log.messages('error'), [
+                'test.0 Plugin simple failed',
+                'test.0 Plugin simple last message repeated 1 time',
+            ]);
+            assert.ok(log.has('warn', '1 message was suppressed by the log rate limit (error: 1)'));
+            await handler.destroyAll();
+        });
+    });
+
+    describe('error reporting', () => {
+        /**
+         * Create a handler that records the calls of its error hook as `<phase> <plugin>: <message>`
+         */
+        function createReportingHandler(): ReturnType<typeof createTestHandler> & {
+            reports: string[];
+            contexts: PluginErrorContext[];
+        } {
+            const reports: string[] = [];
+            const contexts: PluginErrorContext[] = [];
+            const context = createTestHandler({
+                settings: {
+                    onError: (pluginName, phase, error, errorContext) => {
+                        reports.push(`${phase} ${pluginName}: ${error.message}`);
+                        contexts.push(errorContext);
+                    },
+                },
+            });
+            return { ...context, reports, contexts };
+        }
+
+        it('passes the failures of the lifecycle phases to the error hook', async () => {
+            const { handler, db, reports, contexts } = createReportingHandler();
+            handler.addPlugins(
+                { missing: {}, throwing: {}, failingconstructor: {}, failinginit: {}, undestroyable: {} },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            await handler.destroy('undestroyable');
+
+            assert.deepEqual(reports, [
+                'resolve missing: Plugin missing could not be resolved',
+                'load throwing: this plugin cannot be required',
+                'instantiate failingconstructor: constructor failed on purpose',
+                'init failinginit: init failed on purpose',
+                'destroy undestroyable: Plugin undestroyable could not be destroyed',
+            ]);
+            assert.deepEqual(contexts[3], {
+                pluginName: 'failinginit',
+                pluginVersion: '1.0.0',
+                pluginNamespace: 'system.adapter.test.0.plugins.failinginit',
+                pluginScope: 'adapter',
+            });
+            await handler.destroyAll();
+        });
+
+        it('passes the errors a plugin reports to the error hook', async () => {
+            const { handler, db, log, reports, contexts } = createReportingHandler();
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance('simple')!;
+
+            instance.reportError(new Error('request failed'), { url: 'http://localhost' });
+            await instance.fail('cannot continue');
+
+            assert.deepEqual(reports, ['report simple: request failed', 'runtime simple: cannot continue']);
+            assert.equal(contexts[0].url, 'http://localhost');
+            assert.equal(contexts[0].pluginVersion, '1.0.0');
+            assert.ok(
+                log.has('error', 'test.0 Plugin simple Reported error url=http://localhost error="request failed"'),
+            );
+            assert.equal(handler.isPluginActive('simple'), false, 'only fail() deactivates the plugin');
+        });
+
+        it('reports errors of the change handlers with the id of the change', async () => {
+            const { handler, db, reports, contexts } = createReportingHandler();
+            const ns = 'system.adapter.test.0.plugins';
+            handler.addPlugins({ subscriber: { states: [`${ns}.subscriber.*`], failOnChange: true } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+
+            await handler.handleStateChange(`${ns}.subscriber.command`, { val: 1, ack: true } as ioBroker.State);
+
+            assert.deepEqual(reports, ['change subscriber: change failed on purpose']);
+            assert.equal(contexts[0].id, `${ns}.subscriber.command`);
+            await handler.destroyAll();
+        });
+
+        it('keeps working if the error hook fails', async () => {
+            const { handler, db, log } = createTestHandler({
+                settings: {
+                    onError: () => Promise.reject(new Error('dashboard unreachable')),
+                },
+            });
+            handler.addPlugins({ failinginit: {}, simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+            await delay(0);
+
+            assert.equal(handler.isPluginActive('simple'), true);
+            assert.ok(log.has('warn', 'The error hook failed for plugin failinginit: dashboard unreachable'));
+        });
+    });
+
+    describe('metrics', () => {
+        it('exports the metrics of all plugins in the Prometheus text format', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: {}, second: {}, noconfig: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            assert.equal(handler.getPrometheusMetrics(), '');
+
+            handler.getPluginInstance('simple')!.metrics.counter('uploads', { description: 'Uploaded files' }).inc(3);
+            handler.getPluginInstance('second')!.metrics.counter('uploads').inc();
+            const latency = handler.getPluginInstance('second')!.metrics.histogram('latencyMs', { buckets: [10, 100] });
+            latency.observe(5);
+            latency.observe(50);
+            latency.observe(500);
+            handler.getPluginInstance('noconfig')!.metrics.gauge('uploads').set(1);
+
+            assert.equal(
+                handler.getPrometheusMetrics(),
+                [
+                    '# HELP iobroker_plugin_uploads Uploaded files',
+                    '# TYPE iobroker_plugin_uploads counter',
+                    'iobroker_plugin_uploads{plugin="simple"} 3',
+                    'iobroker_plugin_uploads{plugin="second"} 1',
+                    '# TYPE iobroker_plugin_latencyMs histogram',
+                    'iobroker_plugin_latencyMs_bucket{plugin="second",le="10"} 1',
+                    'iobroker_plugin_latencyMs_bucket{plugin="second",le="100"} 2',
+                    'iobroker_plugin_latencyMs_bucket{plugin="second",le="+Inf"} 3',
+                    'iobroker_plugin_latencyMs_sum{plugin="second"} 555',
+                    'iobroker_plugin_latencyMs_count{plugin="second"} 3',
+                    '',
+                ].join('\n'),
+                'the gauge with the name of a counter is skipped',
+            );
+            await handler.destroyAll();
+        });
+    });
+
+    describe('purge', () => {
+        const NAMESPACE = 'system.adapter.test.0.plugins';
+
+        /**
+         * Add the objects and states an earlier run of a plugin would have left behind
+         *
+         * @param db the database
+         * @param name name of the plugin
+         */
+        function seedLeftovers(db: ReturnType<typeof createTestHandler>['db'], name: string): void {
+            db.objects.set(`${NAMESPACE}.${name}`, {
+                _id: `${NAMESPACE}.${name}`,
+                type: 'folder',
+                common: { name },
+                native: {},
+            });
+            db.objects.set(`${NAMESPACE}.${name}.devices.count`, {
+                _id: `${NAMESPACE}.${name}.devices.count`,
+                type: 'state',
+                common: { name: 'count', type: 'number', role: 'value', read: true, write: false },
+                native: {},
+            });
+            db.seedState(`${NAMESPACE}.${name}.devices.count`, 3);
+            db.seedState(`${NAMESPACE}.${name}.devices.lastSeen`, 1);
+        }
+
+        it('reports on a dry run what would be removed and keeps everything', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            seedLeftovers(db, 'simple');
+            const objectCount = db.objects.size;
+            const stateCount = db.states.size;
+
+            const result = await handler.purgePlugin('simple', { dryRun: true });
+
+            assert.equal(result.dryRun, true);
+            assert.equal(result.namespace, `${NAMESPACE}.simple`);
+            assert.deepEqual(result.objects.slice(0, 3), [
+                `${NAMESPACE}.simple`,
+                `${NAMESPACE}.simple.devices.count`,
+                `${NAMESPACE}.simple.enabled`,
+            ]);
+            assert.ok(result.states.includes(`${NAMESPACE}.simple.devices.lastSeen`));
+            assert.ok(result.states.includes(`${NAMESPACE}.simple.info.status`));
+            assert.equal(db.objects.size, objectCount);
+            assert.equal(db.states.size, stateCount);
+            assert.equal(handler.isPluginActive('simple'), true);
+            await handler.destroyAll();
+        });
+
+        it('destroys the plugin and removes all objects and states of its namespace', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ simple: {}, second: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            seedLeftovers(db, 'simple');
+            seedLeftovers(db, 'simpleextra');
+            const instance = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            const result = await handler.purgePlugin('simple');
+
+            assert.equal(result.dryRun, false);
+            assert.equal(instance.destroyCalls, 1);
+            assert.equal(handler.pluginExists('simple'), false);
+            assert.ok(
+                result.states.includes(`${NAMESPACE}.simple.info.status`),
+                'the states written on destroy are removed',
+            );
+            const left = (ids: Iterable<string>): string[] =>
+                [...ids].filter(id => id === `${NAMESPACE}.simple` || id.startsWith(`${NAMESPACE}.simple.`));
+            assert.deepEqual(left(db.objects.keys()), []);
+            assert.deepEqual(left(db.states.keys()), []);
+            assert.deepEqual(db.idsFor('delObject').slice(-1), [`${NAMESPACE}.simple`], 'the folder is removed last');
+            assert.ok(db.objects.has(`${NAMESPACE}.simpleextra.devices.count`));
+            assert.ok(db.states.has(`${NAMESPACE}.second.enabled`));
+            assert.ok(
+                log.has(
+                    'info',
+                    `Plugin simple purged, ${result.objects.length} objects and ${result.states.length} states removed`,
+                ),
+            );
+            await handler.destroyAll();
+        });
+
+        it('detects and purges the namespaces of plugins that are not configured anymore', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: {}, missing: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            seedLeftovers(db, 'old');
+            db.seedState(`${NAMESPACE}.stale.enabled`, false);
+            seedLeftovers(db, 'missing');
+
+            assert.deepEqual(await handler.getOrphanedPlugins(), ['old', 'stale']);
+
+            const result = await handler.purgePlugin('old');
+            assert.deepEqual(result.objects, [`${NAMESPACE}.old`, `${NAMESPACE}.old.devices.count`]);
+            assert.deepEqual(result.states, [`${NAMESPACE}.old.devices.count`, `${NAMESPACE}.old.devices.lastSeen`]);
+            assert.deepEqual(await handler.getOrphanedPlugins(), ['stale']);
+            assert.equal(handler.isPluginActive('simple'), true);
+            await handler.destroyAll();
+        });
+
+        it('refuses invalid names and a purge without databases', async () => {
+            const { handler } = createTestHandler();
+            await assert.rejects(handler.purgePlugin('*'), /Invalid plugin name "\*"/);
+            await assert.rejects(
+                handler.purgePlugin('old'),
+                /Plugin old cannot be purged, because no databases were set/,
+            );
+            await assert.rejects(handler.getOrphanedPlugins(), /no databases were set/);
+        });
+    });
+
+    describe('subscriptions', () => {
+        const NAMESPACE = 'system.adapter.test.0.plugins';
+
+        it('passes state changes to every plugin with a matching pattern', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins(
+                {
+                    subscriber: { states: [`${NAMESPACE}.subscriber.command`] },
+                    secondsubscriber: { states: [`${NAMESPACE}.secondsubscriber.*`] },
+                },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            assert.ok(db.stateSubscriptions.has(`${NAMESPACE}.subscriber.command`));
+
+            await handler.handleStateChange(
+                `${NAMESPACE}.subscriber.command`,
+                await db.userWrite(`${NAMESPACE}.subscriber.command`, 'go'),
+            );
+            await handler.handleStateChange(
+                `${NAMESPACE}.secondsubscriber.a.b`,
+                await db.userWrite(`${NAMESPACE}.secondsubscriber.a.b`, 1),
+            );
+            await handler.handleStateChange(`${NAMESPACE}.subscriber.other`, null);
+
+            assert.deepEqual(handler.getPluginInstance<RecordingPlugin>('subscriber')!.stateChanges, [
+                { id: `${NAMESPACE}.subscriber.command`, val: 'go' },
+            ]);
+            assert.deepEqual(handler.getPluginInstance<RecordingPlugin>('secondsubscriber')!.stateChanges, [
+                { id: `${NAMESPACE}.secondsubscriber.a.b`, val: 1 },
+            ]);
+        });
+
+        it('passes object changes to the plugin', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ subscriber: { objects: [`${NAMESPACE}.subscriber.*`] } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            assert.ok(db.objectSubscriptions.has(`${NAMESPACE}.subscriber.*`));
+
+            await handler.handleObjectChange(`${NAMESPACE}.subscriber.config`, {
+                type: 'state',
+            } as ioBroker.Object);
+            await handler.handleObjectChange(`${NAMESPACE}.subscriber.config`, null);
+            await handler.handleObjectChange('system.config', { type: 'config' } as ioBroker.Object);
+
+            assert.deepEqual(handler.getPluginInstance<RecordingPlugin>('subscriber')!.objectChanges, [
+                { id: `${NAMESPACE}.subscriber.config`, type: 'state' },
+                { id: `${NAMESPACE}.subscriber.config`, type: null },
+            ]);
+        });
+
+        it('removes the subscriptions when the plugin is destroyed', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins(
+                { subscriber: { states: [`${NAMESPACE}.subscriber.*`], objects: [`${NAMESPACE}.subscriber.*`] } },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('subscriber')!;
+
+            await handler.destroy('subscriber');
+
+            assert.equal(db.stateSubscriptions.has(`${NAMESPACE}.subscriber.*`), false);
+            assert.equal(db.objectSubscriptions.has(`${NAMESPACE}.subscriber.*`), false);
+            await handler.handleStateChange(
+                `${NAMESPACE}.subscriber.command`,
+                await db.userWrite(`${NAMESPACE}.subscriber.command`, 'go'),
+            );
+            assert.deepEqual(instance.stateChanges, []);
+        });
+
+        it('keeps a pattern subscribed while another plugin still subscribes it', async () => {
+            const { handler, db } = createTestHandler();
+            const config = {
+                states: ['system.config'],
+                objects: ['system.config'],
+                permissions: { read: ['system.config'] },
+            };
+            handler.addPlugins({ subscriber: config, secondsubscriber: config }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            assert.deepEqual(
+                db.idsFor('subscribe').filter(id => id === 'system.config'),
+                ['system.config'],
+            );
+
+            await handler.destroy('subscriber');
+
+            assert.ok(db.stateSubscriptions.has('system.config'));
+            assert.ok(db.objectSubscriptions.has('system.config'));
+            await handler.handleStateChange('system.config', await db.userWrite('system.config', 'changed'));
+            assert.deepEqual(handler.getPluginInstance<RecordingPlugin>('secondsubscriber')!.stateChanges, [
+                { id: 'system.config', val: 'changed' },
+            ]);
+
+            await handler.destroy('secondsubscriber');
+
+            assert.equal(db.stateSubscriptions.has('system.config'), false);
+            assert.equal(db.objectSubscriptions.has('system.config'), false);
+        });
+
+        it('keeps the enabled state subscribed when a plugin that subscribed it is disabled', async () => {
+            const { handler, db } = createTestHandler();
+            const enabledId = `${NAMESPACE}.subscriber.enabled`;
+            handler.addPlugins({ subscriber: { states: [enabledId] } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+
+            await handler.handleStateChange(enabledId, await db.userWrite(enabledId, false));
+
+            assert.equal(handler.isPluginActive('subscriber'), false);
+            assert.ok(db.stateSubscriptions.has(enabledId), 'the handler still watches the enabled state');
+            await handler.destroy('subscriber');
+            assert.equal(db.stateSubscriptions.has(enabledId), false);
+        });
+
+        it('does not let a failing plugin affect the others', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins(
+                {
+                    subscriber: {
+                        states: [`${NAMESPACE}.*`],
+                        permissions: { read: [`${NAMESPACE}.*`] },
+                        failOnChange: true,
+                    },
+                    secondsubscriber: { states: [`${NAMESPACE}.*`], permissions: { read: [`${NAMESPACE}.*`] } },
+                },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+
+            await handler.handleStateChange(
+                `${NAMESPACE}.subscriber.command`,
+                await db.userWrite(`${NAMESPACE}.subscriber.command`, 'go'),
+            );
+
+            assert.equal(handler.getPluginInstance<RecordingPlugin>('secondsubscriber')!.stateChanges?.length, 1);
+            assert.ok(
+                log.has(
+                    'warn',
+                    `Plugin subscriber could not process the change of ${NAMESPACE}.subscriber.command: change failed on purpose`,
+                ),
+            );
+        });
+
+        it('refuses to subscribe ids the plugin may not read', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ subscriber: { states: ['system.adapter.*'] } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(db.stateSubscriptions.has('system.adapter.*'), false);
+            assert.ok(
+                log.has('error', 'Failed to initialize plugin: Plugin is not allowed to read "system.adapter.*"'),
+            );
+        });
+    });
+
+    describe('services', () => {
+        it('passes the service of an active plugin to its consumers', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins(
+                { provider: { service: 'greeting', greeting: 'Hello' }, consumer: { service: 'greeting' } },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('consumer'), true);
+            assert.equal(handler.getPluginInstance<RecordingPlugin>('consumer')!.consumed?.greet('you'), 'Hello you');
+        });
+
+        it('lets consumers wait until the provider is active', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins(
+                { consumer: { service: 'greeting' }, provider: { service: 'greeting', greeting: 'Hi' } },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            const consumerInit = handler.initPlugin('consumer', createIoPackage());
+            await handler.initPlugin('provider', createIoPackage());
+            await consumerInit;
+
+            assert.equal(handler.isPluginActive('consumer'), true);
+            assert.equal(handler.getPluginInstance<RecordingPlugin>('consumer')!.consumed?.greet('there'), 'Hi there');
+        });
+
+        it('initializes the provider while a consumer that comes first waits for its service', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins(
+                { consumer: { service: 'greeting' }, provider: { service: 'greeting', greeting: 'Hey' } },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('provider'), true);
+            assert.equal(handler.isPluginActive('consumer'), true);
+            assert.equal(handler.getPluginInstance<RecordingPlugin>('consumer')!.consumed?.greet('you'), 'Hey you');
+            await handler.destroyAll();
+        });
+
+        it('fails the initialization of a consumer if no plugin provides the service', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ consumer: { service: 'unknown' }, simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('simple'), true);
+            assert.equal(handler.isPluginActive('consumer'), false);
+            assert.ok(log.has('error', 'Service unknown is not provided by any plugin'));
+            await handler.destroyAll();
+        });
+
+        it('withdraws the service when the provider is destroyed or disabled', async () => {
+            const { handler, db } = createTestHandler();
+            const enabledId = 'system.adapter.test.0.plugins.provider.enabled';
+            handler.addPlugins({ provider: { service: 'greeting', greeting: 'Hello' }, simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const consumer = handler.getPluginInstance('simple')!;
+
+            await handler.handleStateChange(enabledId, await db.userWrite(enabledId, false));
+            await assert.rejects(() => consumer.consumeService('greeting', AbortSignal.abort(new Error('gone'))), {
+                message: 'gone',
+            });
+
+            await handler.handleStateChange(enabledId, await db.userWrite(enabledId, true));
+            assert.ok(await consumer.consumeService('greeting'), 'the service is provided again');
+
+            await handler.destroy('provider');
+            await assert.rejects(() => consumer.consumeService('greeting', AbortSignal.abort(new Error('gone'))), {
+                message: 'gone',
+            });
+        });
+
+        it('refuses a second provider of the same service', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins(
+                {
+                    provider: { service: 'greeting', greeting: 'Hello' },
+                    secondprovider: { service: 'greeting', greeting: 'Hi' },
+                },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('secondprovider'), false);
+            assert.ok(
+                log.has(
+                    'error',
+                    'Failed to initialize plugin: Service greeting is already provided by system.adapter.test.0.plugins.provider',
+                ),
+            );
+        });
+    });
+
+    describe('dependencies', () => {
+        /**
+         * Names of the plugins in the order their initialization started
+         *
+         * @param db the database the plugins use
+         */
+        function initOrder(db: ReturnType<typeof createTestHandler>['db']): string[] {
+            return db
+                .idsFor('extendObject')
+                .filter(id => /^system\.adapter\.test\.0\.plugins\.[^.]+$/.test(id))
+                .map(id => id.split('.').pop()!);
+        }
+
+        it('initializes plugins after their dependencies and destroys them before', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ app: {}, simple: {}, cache: {}, database: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+            assert.deepEqual(initOrder(db), ['database', 'cache', 'app', 'simple']);
+
+            const destroyOrder: string[] = [];
+            for (const name of ['app', 'simple', 'cache', 'database']) {
+                const instance = handler.getPluginInstance(name)!;
+                instance.destroy = () => {
+                    destroyOrder.push(name);
+                    return Promise.resolve(true);
+                };
+            }
+            await handler.destroyAll();
+            assert.deepEqual(destroyOrder, ['simple', 'app', 'cache', 'database']);
+        });
+
+        it('does not require optional dependencies', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ app: {}, database: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('app'), true);
+            assert.equal(handler.getPluginSkipReason('app'), null);
+        });
+
+        it('skips plugins whose required dependency is missing or not active', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins(
+                { needsfailing: {}, failinginit: {}, needsmissing: {}, app: {}, database: { enabled: false } },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.deepEqual(initOrder(db), ['failinginit', 'database']);
+            assert.equal(handler.getPluginSkipReason('needsfailing'), 'the required plugin failinginit is not active');
+            assert.equal(handler.getPluginSkipReason('needsmissing'), 'the required plugin missing is not configured');
+            assert.equal(handler.getPluginSkipReason('app'), 'the required plugin database is not active');
+            assert.ok(
+                log.has(
+                    'warn',
+                    'Plugin needsfailing is not initialized, because the required plugin failinginit is not active',
+                ),
+            );
+        });
+
+        it('skips plugins with circular dependencies', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ cyclea: {}, cycleb: {}, simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.deepEqual(initOrder(db), ['simple']);
+            assert.equal(
+                handler.getPluginSkipReason('cyclea'),
+                'of the circular dependency cyclea -> cycleb -> cyclea',
+            );
+            assert.equal(
+                handler.getPluginSkipReason('cycleb'),
+                'of the circular dependency cyclea -> cycleb -> cyclea',
+            );
+        });
+    });
+
+    describe('concurrent initialization', () => {
+        /**
+         * Add the given slow plugins and return the class that records their initializations
+         *
+         * @param context the test handler to add the plugins to
+         * @param configs configurations of the plugins
+         */
+        function addSlowPlugins(
+            context: ReturnType<typeof createTestHandler>,
+            configs: Record<string, Record<string, any>>,
+        ): SlowPluginClass {
+            context.handler.addPlugins(configs, fixtures.dir);
+            context.handler.setDatabaseForPlugins(context.db.objectsDb, context.db.statesDb);
+            const SlowPlugin = context.handler.getPluginInstance('slowa')!.constructor as unknown as SlowPluginClass;
+            SlowPlugin.reset();
+            return SlowPlugin;
+        }
+
+        it('initializes the plugins one after the other by default', async () => {
+            const context = createTestHandler();
+            const SlowPlugin = addSlowPlugins(context, { slowa: {}, slowb: {}, slowc: {} });
+
+            await context.handler.initPlugins(createIoPackage());
+
+            assert.equal(SlowPlugin.maxRunning, 1);
+        });
+
+        it('initializes up to the configured number of plugins at the same time', async () => {
+            const context = createTestHandler({ settings: { initConcurrency: 2 } });
+            const SlowPlugin = addSlowPlugins(context, { slowa: {}, slowb: {}, slowc: {} });
+
+            await context.handler.initPlugins(createIoPackage());
+
+            assert.equal(SlowPlugin.maxRunning, 2);
+            assert.deepEqual(SlowPlugin.log.slice(0, 2), ['start slowa', 'start slowb']);
+            for (const name of ['slowa', 'slowb', 'slowc']) {
+                assert.equal(context.handler.isPluginActive(name), true);
+            }
+        });
+
+        it('prefers the concurrency passed to initPlugins', async () => {
+            const context = createTestHandler({ settings: { initConcurrency: 2 } });
+            const SlowPlugin = addSlowPlugins(context, { slowa: {}, slowb: {}, slowc: {} });
+
+            await context.handler.initPlugins(createIoPackage(), { concurrency: 3 });
+
+            assert.equal(SlowPlugin.maxRunning, 3);
+        });
+
+        it('waits for the dependencies of a plugin', async () => {
+            const context = createTestHandler();
+            const SlowPlugin = addSlowPlugins(context, { slowapp: {}, slowa: { delay: 40 }, slowb: {} });
+
+            await context.handler.initPlugins(createIoPackage(), { concurrency: 3 });
+
+            assert.deepEqual(SlowPlugin.log, [
+                'start slowa',
+                'start slowb',
+                'end slowb',
+                'end slowa',
+                'start slowapp',
+                'end slowapp',
+            ]);
+        });
+
+        it('keeps failures isolated', async () => {
+            const context = createTestHandler();
+            addSlowPlugins(context, { slowa: {}, failinginit: {}, slowb: {} });
+
+            await context.handler.initPlugins(createIoPackage(), { concurrency: 3 });
+
+            assert.equal(context.handler.isPluginActive('failinginit'), false);
+            assert.equal(context.handler.isPluginActive('slowa'), true);
+            assert.equal(context.handler.isPluginActive('slowb'), true);
+        });
+    });
+
+    describe('lifecycle events', () => {
+        it('reports the lifecycle of a plugin with the duration of init and destroy', async () => {
+            const { handler, db } = createTestHandler();
+            const events = recordEvents(handler);
+            const durations: Record<string, number | undefined> = {};
+            handler.on('initialized', ({ durationMs }) => (durations.init = durationMs));
+            handler.on('destroyed', ({ durationMs }) => (durations.destroy = durationMs));
+
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            await handler.destroy('simple');
+
+            assert.deepEqual(events, [
+                'instantiated simple',
+                'initialized simple',
+                'activated simple',
+                'deactivated simple',
+                'destroyed simple',
+            ]);
+            assert.equal(typeof durations.init, 'number');
+            assert.equal(typeof durations.destroy, 'number');
+        });
+
+        it('reports plugins that cannot be resolved, loaded or instantiated', () => {
+            const { handler } = createTestHandler();
+            const events = recordEvents(handler);
+
+            handler.addPlugins({ unknown: {}, throwing: {}, failingconstructor: {}, controlleronly: {} }, fixtures.dir);
+
+            assert.deepEqual(events, [
+                'resolveFailed unknown: Plugin unknown could not be resolved',
+                'resolveFailed throwing: this plugin cannot be required',
+                'resolveFailed failingconstructor: constructor failed on purpose',
+                'resolveFailed controlleronly: Plugin controlleronly only supports the scope(s) "controller", but is used in scope "adapter"',
+            ]);
+        });
+
+        it('reports failed initializations with the error', async () => {
+            const { handler, db } = createTestHandler();
+            const events = recordEvents(handler);
+            handler.addPlugins({ failinginit: {}, hanging: { hangIn: 'init', timeouts: { init: 20 } } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.deepEqual(events.slice(2), [
+                'initFailed failinginit: init failed on purpose',
+                'initFailed hanging: Plugin hanging did not finish init within 20ms',
+            ]);
+        });
+
+        it('reports a plugin that cannot be destroyed', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ undestroyable: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const events = recordEvents(handler);
+
+            await handler.destroy('undestroyable');
+            await handler.destroyAll();
+
+            assert.deepEqual(events, [
+                'destroyFailed undestroyable: Plugin undestroyable could not be destroyed',
+                'destroyFailed undestroyable: Plugin undestroyable could not be destroyed',
+                'deactivated undestroyable',
+                'destroyed undestroyable',
+            ]);
+        });
+
+        it('reports plugins that are disabled and enabled at runtime', async () => {
+            const { handler, db } = createTestHandler();
+            const enabledId = 'system.adapter.test.0.plugins.simple.enabled';
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const events = recordEvents(handler);
+
+            await handler.handleStateChange(enabledId, await db.userWrite(enabledId, false));
+            await handler.handleStateChange(enabledId, await db.userWrite(enabledId, true));
+
+            assert.deepEqual(events, [
+                'deactivated simple',
+                'destroyed simple',
+                'initialized simple',
+                'activated simple',
+            ]);
+        });
+
+        it('is not affected by a failing listener', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.on('initialized', () => {
+                throw new Error('listener failed on purpose');
+            });
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('simple'), true);
+            assert.ok(
+                log.has(
+                    'warn',
+                    'A listener of the event initialized of plugin simple failed: listener failed on purpose',
+                ),
+            );
+        });
+    });
+
+    describe('reload', () => {
+        it('loads the changed code and initializes it like before', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ reloadable: { custom: 'value' } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const before = handler.getPluginInstance<RecordingPlugin>('reloadable')!;
+
+            fixtures.replace('reloadable', 'defaultExport.js');
+            assert.equal(await handler.reloadPlugin('reloadable'), true);
+
+            const after = handler.getPluginInstance('reloadable')!;
+            assert.notEqual(after, before);
+            assert.equal(before.destroyCalls, 1, 'the old instance was destroyed');
+            assert.equal(after.constructor.name, 'DefaultExportPlugin', 'the new code was required');
+            assert.equal(after.statesDb, db.statesDb, 'the databases are applied again');
+            assert.equal(handler.isPluginActive('reloadable'), true, 'the new instance is initialized');
+            assert.deepEqual(handler.getPluginConfig('reloadable'), { custom: 'value', enabled: true });
+            assert.ok(db.stateSubscriptions.has('system.adapter.test.0.plugins.reloadable.enabled'));
+        });
+
+        it('imports an ESM plugin again', async () => {
+            const { handler, db, log } = createTestHandler();
+            await handler.addPluginsAsync({ reloadableesm: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const before = handler.getPluginInstance('reloadableesm');
+
+            assert.equal(await handler.reloadPlugin('reloadableesm'), true);
+            const after = handler.getPluginInstance('reloadableesm');
+            assert.notEqual(after, before);
+            assert.equal(handler.isPluginActive('reloadableesm'), true);
+
+            // the entry module is evaluated again, so a broken change is noticed
+            fixtures.replace('reloadableesm', 'throwingModule.mjs');
+            assert.equal(await handler.reloadPlugin('reloadableesm'), false);
+            assert.ok(log.has('error', 'Plugin reloadableesm could not be imported: this plugin cannot be imported'));
+        });
+
+        it('reloads a plugin again after its code could not be loaded', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ reloadbroken: { custom: 'value' } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+
+            fixtures.replace('reloadbroken', 'throwingModule.js');
+            assert.equal(await handler.reloadPlugin('reloadbroken'), false);
+            assert.ok(log.has('error', 'Plugin reloadbroken could not be required'));
+            assert.equal(handler.pluginExists('reloadbroken'), true);
+            assert.equal(handler.isPluginInstantiated('reloadbroken'), false);
+
+            fixtures.replace('reloadbroken', 'simple.js');
+            assert.equal(await handler.reloadPlugin('reloadbroken'), true);
+
+            const instance = handler.getPluginInstance('reloadbroken')!;
+            assert.equal(instance.statesDb, db.statesDb, 'the databases are applied again');
+            assert.equal(handler.isPluginActive('reloadbroken'), true);
+            assert.deepEqual(handler.getPluginConfig('reloadbroken'), { custom: 'value', enabled: true });
+            await handler.destroyAll();
+        });
+
+        it('does not initialize a reloaded plugin that was never initialized', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            assert.equal(await handler.reloadPlugin('simple'), true);
+
+            assert.equal(handler.isPluginInstantiated('simple'), true);
+            assert.equal(handler.isPluginActive('simple'), false);
+            assert.deepEqual(db.calls, []);
+        });
+
+        it('refuses to reload an unknown plugin', async () => {
+            const { handler, log } = createTestHandler();
+
+            assert.equal(await handler.reloadPlugin('unknown'), false);
+            assert.ok(log.has('warn', 'Plugin unknown cannot be reloaded, because it was never loaded'));
+        });
+    });
+
+    describe('timeouts', () => {
+        it('gives up on a plugin whose initialization takes too long', async () => {
+            const { handler, db, log } = createTestHandler({ settings: { timeouts: { init: 50 } } });
+            handler.addPlugins({ hanging: { hangIn: 'init' }, simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            const instance = handler.getPluginInstance<RecordingPlugin>('hanging')!;
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(instance.initSignals?.[0].aborted, true, 'the plugin is told to stop');
+            assert.equal(instance.destroySignals?.length, 1, 'the plugin is destroyed');
+            assert.equal(handler.isPluginInstantiated('hanging'), false);
+            assert.ok(
+                log.has(
+                    'warn',
+                    'Plugin hanging destroyed because not initialized correctly: Plugin hanging did not finish init within 50ms',
+                ),
+            );
+            assert.equal(handler.isPluginActive('simple'), true, 'the next plugin is initialized anyway');
+        });
+
+        it('prefers the timeout of the plugin configuration', async () => {
+            const { handler, db, log } = createTestHandler({ settings: { timeouts: { init: 60_000 } } });
+            handler.addPlugins({ hanging: { hangIn: 'init', timeouts: { init: 20 } } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginInstantiated('hanging'), false);
+            assert.ok(log.has('warn', 'Plugin hanging did not finish init within 20ms'));
+        });
+
+        it('moves on when destroy() takes too long on shutdown', async () => {
+            const { handler, db, log } = createTestHandler({ settings: { timeouts: { destroy: 50 } } });
+            handler.addPlugins({ hanging: { hangIn: 'destroy' }, simple: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('hanging')!;
+            const simple = handler.getPluginInstance<RecordingPlugin>('simple')!;
+
+            await handler.destroyAll();
+
+            assert.equal(instance.destroySignals?.[0].aborted, true);
+            assert.equal(handler.isPluginInstantiated('hanging'), false);
+            assert.equal(simple.destroyCalls, 1);
+            assert.ok(log.has('warn', 'Plugin hanging could not be destroyed: Plugin hanging did not finish destroy'));
+        });
+
+        it('keeps a plugin whose destroy() takes too long without force', async () => {
+            const { handler, db } = createTestHandler({ settings: { timeouts: { destroy: 20 } } });
+            handler.addPlugins({ hanging: { hangIn: 'destroy' } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(await handler.destroy('hanging'), false);
+            assert.equal(handler.isPluginInstantiated('hanging'), true);
+        });
+
+        it('passes a signal that is never aborted without timeouts', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ hanging: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('hanging')!;
+
+            await handler.destroyAll();
+
+            assert.ok(instance.initSignals?.[0] instanceof AbortSignal);
+            assert.equal(instance.initSignals?.[0].aborted, false);
+            assert.equal(instance.destroySignals?.[0].aborted, false);
+        });
+    });
+
+    describe('restart policy', () => {
+        const restart = { maxAttempts: 3, initialDelay: 10, jitter: 0 };
+
+        it('restarts a failed initialization with exponential backoff', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ flaky: { failures: 2, restart } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            const events = recordEvents(handler);
+
+            await handler.initPlugins(createIoPackage());
+            assert.equal(handler.isPluginInstantiated('flaky'), true, 'the instance is kept for the restart');
+            await delay(100);
+
+            const instance = handler.getPluginInstance<RecordingPlugin>('flaky')!;
+            assert.equal(instance.initAttempts, 3);
+            assert.equal(instance.status, 'active');
+            assert.ok(log.has('info', 'Plugin flaky is restarted in 10ms (attempt 1 of 3)'));
+            assert.ok(log.has('info', 'Plugin flaky is restarted in 20ms (attempt 2 of 3)'));
+            assert.deepEqual(events, [
+                'initFailed flaky: attempt 1 failed on purpose',
+                'initFailed flaky: attempt 2 failed on purpose',
+                'initialized flaky',
+                'activated flaky',
+            ]);
+            await handler.destroyAll();
+        });
+
+        it('gives up after the maximal number of attempts', async () => {
+            const { handler, db, log } = createTestHandler({ settings: { restart: { ...restart, maxAttempts: 2 } } });
+            handler.addPlugins({ flaky: { failures: 5 } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+            await delay(100);
+
+            assert.equal(handler.getPluginInstance<RecordingPlugin>('flaky')!.initAttempts, 3);
+            assert.equal(handler.isPluginActive('flaky'), false);
+            assert.ok(log.has('error', 'Plugin flaky is not restarted anymore after 2 attempts'));
+            await handler.destroyAll();
+        });
+
+        it('does not restart plugins without a restart policy', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ flaky: { failures: 1 } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+            await delay(30);
+
+            assert.equal(handler.getPluginInstance<RecordingPlugin>('flaky')!.initAttempts, 1);
+            assert.equal(handler.isPluginActive('flaky'), false);
+        });
+
+        it('restarts a plugin that reports a fatal error', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ flaky: { restart } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('flaky')!;
+            const events = recordEvents(handler);
+
+            await instance.fail(new Error('connection lost'));
+
+            assert.equal(instance.status, 'failed');
+            assert.equal(instance.lastError?.message, 'connection lost');
+            assert.ok(log.has('error', 'Plugin failed: connection lost'));
+            await delay(50);
+            assert.equal(instance.status, 'active');
+            assert.equal(instance.initAttempts, 2);
+            assert.deepEqual(events, ['deactivated flaky', 'initialized flaky', 'activated flaky']);
+            await handler.destroyAll();
+        });
+
+        it('handles overlapping fatal errors as one failure', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ flaky: { restart } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('flaky')!;
+            const events = recordEvents(handler);
+
+            await Promise.all([instance.fail('first failure'), instance.fail('second failure')]);
+            await delay(50);
+
+            assert.equal(instance.initAttempts, 2);
+            assert.equal(instance.status, 'active');
+            assert.equal(log.messages('info').filter(message => message.includes('is restarted in')).length, 1);
+            assert.deepEqual(events, ['deactivated flaky', 'initialized flaky', 'activated flaky']);
+            await handler.destroyAll();
+        });
+
+        it('logs an error that occurs while a failure is handled', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ flaky: {} }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('flaky')!;
+            db.statesDb.setStateAsync = () => Promise.reject(new Error('database gone'));
+
+            await instance.fail('connection lost');
+
+            assert.ok(log.has('error', 'Failure of plugin flaky could not be handled: database gone'));
+            await handler.destroyAll();
+        });
+
+        it('keeps a restarted plugin running when its timed out initialization finishes late', async () => {
+            const { handler, db } = createTestHandler({ settings: { timeouts: { init: 50 } } });
+            handler.addPlugins({ lateinit: { lateBy: 150, restart } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('lateinit')!;
+
+            await delay(250);
+
+            assert.equal(instance.initAttempts, 2);
+            assert.equal(instance.status, 'active');
+            assert.equal(handler.isPluginActive('lateinit'), true);
+            assert.deepEqual(instance.disposed, [1], 'only the resource of the late run is released');
+            await handler.destroyAll();
+            assert.deepEqual(instance.disposed, [1, 2]);
+        });
+
+        it('counts the attempts from zero after the plugin was active long enough', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ flaky: { restart: { ...restart, maxAttempts: 1, resetAfter: 20 } } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('flaky')!;
+
+            await instance.fail('first failure');
+            await delay(50);
+            await instance.fail('second failure');
+            await delay(50);
+
+            assert.equal(instance.initAttempts, 3);
+            assert.equal(instance.status, 'active');
+            assert.equal(log.messages('info').filter(message => message.includes('attempt 1 of 1')).length, 2);
+            await handler.destroyAll();
+        });
+
+        it('cancels a scheduled restart when the plugin is destroyed', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ flaky: { failures: 1, restart: { ...restart, initialDelay: 30 } } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+            const instance = handler.getPluginInstance<RecordingPlugin>('flaky')!;
+
+            await handler.destroy('flaky');
+            await delay(60);
+
+            assert.equal(instance.initAttempts, 1);
+            assert.equal(handler.isPluginInstantiated('flaky'), false);
+        });
+    });
+
+    describe('isolation', () => {
+        const ns = 'system.adapter.test.0.plugins.isolated';
+
+        it('runs an isolated plugin in a worker thread', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ isolated: { isolation: true } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('isolated'), true);
+            assert.equal(db.states.get(`${ns}.isMainThread`)?.val, false);
+            assert.equal(db.states.get(`${ns}.info.status`)?.val, 'active');
+            assert.ok(log.has('info', 'test.0 Plugin isolated Initialized'), 'the log is passed to the parent');
+
+            await handler.destroyAll();
+            assert.equal(db.states.get(`${ns}.destroyed`)?.val, true);
+        });
+
+        it('passes changes of subscribed states to the worker', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ isolated: { isolation: true } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+
+            assert.ok(db.stateSubscriptions.has(`${ns}.command`));
+            await handler.handleStateChange(`${ns}.command`, await db.userWrite(`${ns}.command`, 'ping'));
+
+            assert.equal(db.states.get(`${ns}.echo`)?.val, 'ping');
+            await handler.destroyAll();
+            assert.equal(db.stateSubscriptions.size, 0);
+        });
+
+        it('passes a changed log level to the worker', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ isolated: { isolation: true, logLevel: 'info' } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+
+            await handler.handleStateChange(`${ns}.command`, await db.userWrite(`${ns}.command`, 'first'));
+            await handler.handleStateChange(`${ns}.logLevel`, await db.userWrite(`${ns}.logLevel`, 'debug'));
+            await handler.handleStateChange(`${ns}.command`, await db.userWrite(`${ns}.command`, 'second'));
+
+            assert.equal(log.has('debug', 'Plugin isolated Command first'), false);
+            assert.ok(log.has('debug', 'Plugin isolated Command second'));
+            await handler.destroyAll();
+        });
+
+        it('exports the metrics of the plugin in the worker', async () => {
+            const { handler, db } = createTestHandler({ settings: { metricsInterval: 10 } });
+            handler.addPlugins({ isolated: { isolation: true } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            await handler.initPlugins(createIoPackage());
+
+            await handler.handleStateChange(`${ns}.command`, await db.userWrite(`${ns}.command`, 'ping'));
+            await delay(100);
+
+            assert.equal(db.states.get(`${ns}.metrics.commands`)?.val, 1);
+            assert.match(handler.getPrometheusMetrics(), /^iobroker_plugin_commands\{plugin="isolated"\} 1$/m);
+            await handler.destroyAll();
+        });
+
+        it('checks the permissions of the plugin in the parent thread', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins(
+                { isolated: { isolation: true, writeTo: 'system.adapter.admin.0.alive' } },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('isolated'), false);
+            assert.equal(db.states.has('system.adapter.admin.0.alive'), false);
+            assert.ok(log.has('error', 'Failed to initialize plugin: Plugin is not allowed to write'));
+            await handler.destroyAll();
+        });
+
+        it('validates the configuration against the schema of the plugin class in the worker', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins(
+                { schema: { isolation: true }, validschema: { isolation: true, host: 'example.com' } },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('schema'), false);
+            assert.ok(log.has('error', 'Plugin schema - host is required'));
+            assert.equal(handler.isPluginActive('validschema'), true);
+            await handler.destroyAll();
+        });
+
+        it('creates the objects declared by the plugin class in the worker', async () => {
+            const { handler, db } = createTestHandler();
+            const objectsNs = 'system.adapter.test.0.plugins.objects';
+            db.objects.set(`${objectsNs}.old`, {
+                _id: `${objectsNs}.old`,
+                type: 'state',
+                common: {},
+                native: {},
+            } as ioBroker.Object);
+            handler.addPlugins({ objects: { isolation: true } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(handler.isPluginActive('objects'), true);
+            assert.equal(db.objects.get(`${objectsNs}.devices`)?.type, 'channel');
+            assert.equal(db.states.get(`${objectsNs}.connection.host`)?.val, 'localhost');
+            assert.equal(db.objects.has(`${objectsNs}.old`), false, 'removeStaleObjects of the class is applied');
+            await handler.destroyAll();
+        });
+
+        it('starts the worker with the resource limits', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins(
+                { isolated: { isolation: { resourceLimits: { maxOldGenerationSizeMb: 64 } } } },
+                fixtures.dir,
+            );
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.equal(db.states.get(`${ns}.maxOldGenerationSizeMb`)?.val, 64);
+            await handler.destroyAll();
+        });
+
+        it('reports a crashed worker as failure of the plugin', async () => {
+            const { handler, db, log } = createTestHandler();
+            handler.addPlugins({ isolated: { isolation: true, crash: true } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            const deactivated = once(handler, 'deactivated');
+
+            await handler.initPlugins(createIoPackage());
+            await deactivated;
+
+            const instance = handler.getPluginInstance('isolated')!;
+            assert.equal(instance.status, 'failed');
+            assert.equal(instance.lastError?.message, 'crashed on purpose');
+            assert.ok(log.has('error', 'Plugin failed: crashed on purpose'));
+            await handler.destroyAll();
+        });
+
+        it('terminates a blocked worker when the initialization times out', async () => {
+            const { handler, db } = createTestHandler();
+            handler.addPlugins({ isolated: { isolation: true, block: true, timeouts: { init: 100 } } }, fixtures.dir);
+            handler.setDatabaseForPlugins(db.objectsDb, db.statesDb);
+            const events = recordEvents(handler);
+
+            await handler.initPlugins(createIoPackage());
+
+            assert.deepEqual(events, ['initFailed isolated: Plugin isolated did not finish init within 100ms']);
+            assert.equal(handler.isPluginInstantiated('isolated'), false);
+        });
+    });
+
     it('reports success when destroying an unknown plugin', async () => {
         const { handler } = createTestHandler();
 